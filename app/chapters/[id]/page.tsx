@@ -0,0 +1,43 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import ChapterView from "@/components/chapter-view";
+import { chapters, getChapter } from "@/lib/chapters";
+
+type ChapterPageProps = {
+  params: Promise<{ id: string }>;
+};
+
+// Every chapter is known at build time, anything else is a 404
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return chapters.map((chapter) => ({ id: chapter.id }));
+}
+
+export async function generateMetadata({
+  params,
+}: ChapterPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const chapter = getChapter(id);
+
+  if (!chapter) {
+    return {};
+  }
+
+  return {
+    title: `${chapter.title}: ${chapter.description}`,
+    description: `${chapter.title} of React Internals - ${chapter.description}`,
+    keywords: [...chapter.tags],
+  };
+}
+
+export default async function ChapterPage({ params }: ChapterPageProps) {
+  const { id } = await params;
+  const chapter = getChapter(id);
+
+  if (!chapter) {
+    notFound();
+  }
+
+  return <ChapterView id={chapter.id} />;
+}
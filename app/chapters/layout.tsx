@@ -0,0 +1,18 @@
+import ChapterSidebar from "@/components/chapter-sidebar";
+import { getChapterSummaries } from "@/lib/chapters";
+
+export default function ChaptersLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <div className="flex min-h-screen bg-zinc-50 dark:bg-zinc-950">
+      {/* Sidebar */}
+      <ChapterSidebar chapters={getChapterSummaries()} />
+
+      {/* Main Content - Shows both non-optimised and optimised */}
+      <main className="flex-1 overflow-auto">{children}</main>
+    </div>
+  );
+}
@@ -1,9 +1,13 @@
 import type { Metadata } from "next";
+import { ErrorReporterProvider } from "@/components/error-reporter";
 import ReactScan from "@/components/react-scan";
 import "./globals.css";
 
 export const metadata: Metadata = {
-  title: "React Internals",
+  title: {
+    default: "React Internals",
+    template: "%s | React Internals",
+  },
   description: "Learn React performance patterns",
 };
 
@@ -16,7 +20,7 @@ export default function RootLayout({
     <html lang="en">
       <body className="font-sans antialiased">
         <ReactScan />
-        {children}
+        <ErrorReporterProvider>{children}</ErrorReporterProvider>
       </body>
     </html>
   );
@@ -3,10 +3,16 @@
 import { Button } from "@/components/ui/button";
 import ButtonWithDialog from "./button-with-dialog";
 import { CodeBlock } from "@/components/ui/code-block";
+import {
+  RenderCounter,
+  useRenderCount,
+  withRenderTiming,
+} from "@/components/render-counter";
 
 // VerySlowComponent - simulates a slow rendering component
 // This demonstrates how state changes in parent affect child re-renders
-const VerySlowComponent = () => {
+const VerySlowComponent = withRenderTiming("VerySlowComponent", () => {
+  useRenderCount("VerySlowComponent");
   // Simulate slow rendering by doing some heavy computation
   const startTime = performance.now();
   while (performance.now() - startTime < 100) {
@@ -22,12 +28,12 @@ const VerySlowComponent = () => {
         This component takes ~100ms to render. Notice how it re-renders every
         time you open/close the dialog because the parent state changes!
       </p>
-      <p className="mt-2 text-xs text-amber-600/70 dark:text-amber-400/70">
-        Rendered at: {new Date().toLocaleTimeString()}
-      </p>
+      <div className="mt-2">
+        <RenderCounter name="VerySlowComponent" />
+      </div>
     </div>
   );
-};
+});
 
 // Main App component for Chapter 1
 const ChapterOneOptimised = () => {
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useCallback, useRef, useEffect, memo } from "react";
+import SectionLink from "@/components/section-link";
 
 // ===========================================
 // THE PROBLEM: Stale Closures
@@ -65,7 +66,7 @@ const StaleCallbackDemo = () => {
 
   return (
     <div className="rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
-      <h3 className="mb-3 font-semibold">Stale useCallback Demo</h3>
+      <h3 id="stale-use-callback" className="scroll-mt-8 mb-3 font-semibold">Stale useCallback Demo<SectionLink id="stale-use-callback" /></h3>
 
       <div className="mb-4 flex items-center gap-4">
         <span className="text-lg font-bold">Count: {count}</span>
@@ -150,7 +151,7 @@ const StaleRefDemo = () => {
 
   return (
     <div className="rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
-      <h3 className="mb-3 font-semibold">Stale useRef Demo</h3>
+      <h3 id="stale-use-ref" className="scroll-mt-8 mb-3 font-semibold">Stale useRef Demo<SectionLink id="stale-use-ref" /></h3>
 
       <input
         type="text"
@@ -228,7 +229,7 @@ const StaleMemoDemo = () => {
 
   return (
     <div className="rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
-      <h3 className="mb-3 font-semibold">Stale React.memo Demo</h3>
+      <h3 id="stale-react-memo" className="scroll-mt-8 mb-3 font-semibold">Stale React.memo Demo<SectionLink id="stale-react-memo" /></h3>
 
       <input
         type="text"
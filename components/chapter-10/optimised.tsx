@@ -1,6 +1,9 @@
 "use client";
 
 import { useState, useCallback, useRef, useEffect, memo } from "react";
+import SectionLink from "@/components/section-link";
+import { CodeBlock } from "@/components/ui/code-block";
+import { getSnippet } from "@/lib/snippets";
 
 // ===========================================
 // THE SOLUTION: Escaping Closures with Refs
@@ -51,6 +54,7 @@ HeavyComponent.displayName = "HeavyComponent";
  * of the provided function. Perfect for event handlers that need
  * access to current state but shouldn't break memoization.
  */
+// #region use-event-callback
 function useEventCallback<T extends (...args: never[]) => unknown>(
   callback: T
 ): T {
@@ -66,6 +70,7 @@ function useEventCallback<T extends (...args: never[]) => unknown>(
     return ref.current(...args);
   }, []) as T;
 }
+// #endregion
 
 // ===========================================
 // DEMO: Form with properly memoized heavy component
@@ -97,7 +102,7 @@ const FormWithRefEscape = () => {
 
   return (
     <div className="rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
-      <h3 className="mb-3 font-semibold">Form with Ref Escape Hatch</h3>
+      <h3 id="form-with-ref-escape-hatch" className="scroll-mt-8 mb-3 font-semibold">Form with Ref Escape Hatch<SectionLink id="form-with-ref-escape-hatch" /></h3>
 
       <div className="mb-4 space-y-3">
         <input
@@ -144,14 +149,16 @@ const FormWithHook = () => {
   const [message, setMessage] = useState("");
   const [submitted, setSubmitted] = useState<string | null>(null);
 
+  // #region use-event-callback-usage
   // Using the custom hook - much cleaner!
   const handleSubmit = useEventCallback(() => {
     setSubmitted(`Name: ${name}, Message: ${message}`);
   });
+  // #endregion
 
   return (
     <div className="rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
-      <h3 className="mb-3 font-semibold">Using useEventCallback Hook</h3>
+      <h3 id="use-event-callback-demo" className="scroll-mt-8 mb-3 font-semibold">Using useEventCallback Hook<SectionLink id="use-event-callback-demo" /></h3>
 
       <div className="mb-4 space-y-3">
         <input
@@ -290,31 +297,20 @@ const stableCallback = useCallback(() => {
 
       {/* Custom hook code */}
       <div className="mb-6 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
-        <h3 className="mb-3 font-semibold">useEventCallback Hook</h3>
-        <pre className="overflow-x-auto text-xs text-zinc-600 dark:text-zinc-400">
-{`function useEventCallback<T extends (...args: any[]) => any>(
-  callback: T
-): T {
-  const ref = useRef<T>(callback);
-
-  // Update ref on every render
-  useEffect(() => {
-    ref.current = callback;
-  });
-
-  // Return stable wrapper
-  return useCallback((...args: Parameters<T>) => {
-    return ref.current(...args);
-  }, []) as T;
-}
-
-// Usage - so clean!
-const handleSubmit = useEventCallback(() => {
-  console.log(name, email); // Always fresh!
-});
-
-// handleSubmit is stable - safe to pass to memo'd components`}
-        </pre>
+        <h3 id="use-event-callback-hook" className="scroll-mt-8 mb-3 font-semibold">useEventCallback Hook<SectionLink id="use-event-callback-hook" /></h3>
+        <div className="space-y-3">
+          <CodeBlock
+            {...getSnippet("components/chapter-10/optimised.tsx#use-event-callback")}
+          />
+          <CodeBlock
+            {...getSnippet(
+              "components/chapter-10/optimised.tsx#use-event-callback-usage"
+            )}
+          />
+        </div>
+        <p className="mt-3 text-xs text-zinc-600 dark:text-zinc-400">
+          handleSubmit is stable - safe to pass to memo&apos;d components.
+        </p>
       </div>
 
       {/* Comparison */}
@@ -1,34 +1,8 @@
 "use client";
 
 import { useState, useCallback, useMemo, useRef, useEffect } from "react";
-
-// ===========================================
-// SIMPLE DEBOUNCE IMPLEMENTATION
-// ===========================================
-
-const debounce = <T extends (...args: unknown[]) => unknown>(
-  callback: T,
-  wait: number
-): ((...args: Parameters<T>) => void) & { cancel: () => void } => {
-  let timeoutId: ReturnType<typeof setTimeout> | null = null;
-
-  const debouncedFn = (...args: Parameters<T>) => {
-    if (timeoutId) {
-      clearTimeout(timeoutId);
-    }
-    timeoutId = setTimeout(() => {
-      callback(...args);
-    }, wait);
-  };
-
-  debouncedFn.cancel = () => {
-    if (timeoutId) {
-      clearTimeout(timeoutId);
-    }
-  };
-
-  return debouncedFn;
-};
+import SectionLink from "@/components/section-link";
+import { debounce } from "@/lib/debounce";
 
 // ===========================================
 // DEMO 1: Naive debounce (broken - just delays)
@@ -55,8 +29,9 @@ const NaiveDebounceDemo = () => {
 
   return (
     <div className="rounded-lg border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-900/20">
-      <h3 className="mb-3 font-semibold text-red-700 dark:text-red-400">
+      <h3 id="naive-debounce" className="scroll-mt-8 mb-3 font-semibold text-red-700 dark:text-red-400">
         ❌ Naive Debounce (Broken)
+        <SectionLink id="naive-debounce" />
       </h3>
       <p className="mb-3 text-xs text-red-600 dark:text-red-500">
         Debounce is called on every render → creates new timer each time →
@@ -135,8 +110,9 @@ const MemoizedDebounceDemo = () => {
 
   return (
     <div className="rounded-lg border border-emerald-200 bg-emerald-50 p-4 dark:border-emerald-800 dark:bg-emerald-900/20">
-      <h3 className="mb-3 font-semibold text-emerald-700 dark:text-emerald-400">
+      <h3 id="use-memo-debounce" className="scroll-mt-8 mb-3 font-semibold text-emerald-700 dark:text-emerald-400">
         ✅ useMemo Debounce (Works!)
+        <SectionLink id="use-memo-debounce" />
       </h3>
       <p className="mb-3 text-xs text-emerald-600 dark:text-emerald-500">
         Debounce is memoized with useMemo → created once → proper debouncing!
@@ -217,8 +193,9 @@ const MemoWithStateDepsDemo = () => {
 
   return (
     <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 dark:border-amber-800 dark:bg-amber-900/20">
-      <h3 className="mb-3 font-semibold text-amber-700 dark:text-amber-400">
+      <h3 id="use-memo-with-state-dependency" className="scroll-mt-8 mb-3 font-semibold text-amber-700 dark:text-amber-400">
         ❌ useMemo with State Dependency (Broken Again!)
+        <SectionLink id="use-memo-with-state-dependency" />
       </h3>
       <p className="mb-3 text-xs text-amber-600 dark:text-amber-500">
         If callback reads from state → must be in deps → debounce recreated →
@@ -299,8 +276,9 @@ const NaiveRefDemo = () => {
 
   return (
     <div className="rounded-lg border border-purple-200 bg-purple-50 p-4 dark:border-purple-800 dark:bg-purple-900/20">
-      <h3 className="mb-3 font-semibold text-purple-700 dark:text-purple-400">
+      <h3 id="naive-use-ref" className="scroll-mt-8 mb-3 font-semibold text-purple-700 dark:text-purple-400">
         ❌ Naive useRef (Stale Closure!)
+        <SectionLink id="naive-use-ref" />
       </h3>
       <p className="mb-3 text-xs text-purple-600 dark:text-purple-500">
         Ref is initialized once → closure frozen → always logs initial value
@@ -1,133 +1,14 @@
 "use client";
 
-import { useState, useCallback, useMemo, useRef, useEffect } from "react";
-
-// ===========================================
-// DEBOUNCE & THROTTLE IMPLEMENTATIONS
-// ===========================================
-
-const debounce = <T extends (...args: unknown[]) => unknown>(
-  callback: T,
-  wait: number
-): ((...args: Parameters<T>) => void) & { cancel: () => void } => {
-  let timeoutId: ReturnType<typeof setTimeout> | null = null;
-
-  const debouncedFn = (...args: Parameters<T>) => {
-    if (timeoutId) {
-      clearTimeout(timeoutId);
-    }
-    timeoutId = setTimeout(() => {
-      callback(...args);
-    }, wait);
-  };
-
-  debouncedFn.cancel = () => {
-    if (timeoutId) {
-      clearTimeout(timeoutId);
-    }
-  };
-
-  return debouncedFn;
-};
-
-const throttle = <T extends (...args: unknown[]) => unknown>(
-  callback: T,
-  wait: number
-): ((...args: Parameters<T>) => void) & { cancel: () => void } => {
-  let lastTime = 0;
-  let timeoutId: ReturnType<typeof setTimeout> | null = null;
-
-  const throttledFn = (...args: Parameters<T>) => {
-    const now = Date.now();
-
-    if (now - lastTime >= wait) {
-      lastTime = now;
-      callback(...args);
-    } else if (!timeoutId) {
-      timeoutId = setTimeout(() => {
-        lastTime = Date.now();
-        timeoutId = null;
-        callback(...args);
-      }, wait - (now - lastTime));
-    }
-  };
-
-  throttledFn.cancel = () => {
-    if (timeoutId) {
-      clearTimeout(timeoutId);
-    }
-  };
-
-  return throttledFn;
-};
-
-// ===========================================
-// CUSTOM HOOKS: useDebounce & useThrottle
-// The proper solution using the Ref escape hatch!
-// ===========================================
-
-/**
- * Debounce a callback that has access to latest state/props
- * without recreating the debounced function.
- */
-function useDebounce<T extends (...args: never[]) => unknown>(
-  callback: T,
-  delay: number
-): (...args: Parameters<T>) => void {
-  // Step 1: Store the latest callback in a ref
-  const callbackRef = useRef<T>(callback);
-
-  // Step 2: Update the ref on every render (fresh closure!)
-  useEffect(() => {
-    callbackRef.current = callback;
-  });
-
-  // Step 3: Create stable debounced function that calls the ref
-  const debouncedCallback = useMemo(() => {
-    const func = (...args: Parameters<T>) => {
-      callbackRef.current?.(...args);
-    };
-    return debounce(func, delay);
-  }, [delay]); // Only recreate if delay changes
-
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      debouncedCallback.cancel();
-    };
-  }, [debouncedCallback]);
-
-  return debouncedCallback;
-}
-
-/**
- * Throttle a callback that has access to latest state/props
- */
-function useThrottle<T extends (...args: never[]) => unknown>(
-  callback: T,
-  delay: number
-): (...args: Parameters<T>) => void {
-  const callbackRef = useRef<T>(callback);
-
-  useEffect(() => {
-    callbackRef.current = callback;
-  });
-
-  const throttledCallback = useMemo(() => {
-    const func = (...args: Parameters<T>) => {
-      callbackRef.current?.(...args);
-    };
-    return throttle(func, delay);
-  }, [delay]);
-
-  useEffect(() => {
-    return () => {
-      throttledCallback.cancel();
-    };
-  }, [throttledCallback]);
-
-  return throttledCallback;
-}
+import { useState } from "react";
+import SectionLink from "@/components/section-link";
+import { CodeBlock } from "@/components/ui/code-block";
+import {
+  useDebounce,
+  useDebouncedValue,
+  useThrottle,
+} from "@/hooks/use-debounce";
+import { getSnippet } from "@/lib/snippets";
 
 // ===========================================
 // DEMO 1: useDebounce hook
@@ -143,6 +24,7 @@ const DebounceHookDemo = () => {
     // Can access any state here!
     setRequests((prev) => [...prev, `${value} (other: ${otherState})`]);
   }, 500);
+  const { isPending, flush, cancel } = debouncedRequest;
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const val = e.target.value;
@@ -152,8 +34,9 @@ const DebounceHookDemo = () => {
 
   return (
     <div className="rounded-lg border border-emerald-200 bg-emerald-50 p-4 dark:border-emerald-800 dark:bg-emerald-900/20">
-      <h3 className="mb-3 font-semibold text-emerald-700 dark:text-emerald-400">
+      <h3 id="use-debounce-hook" className="scroll-mt-8 mb-3 font-semibold text-emerald-700 dark:text-emerald-400">
         ✅ useDebounce Hook
+        <SectionLink id="use-debounce-hook" />
       </h3>
       <p className="mb-3 text-xs text-emerald-600 dark:text-emerald-500">
         Proper debounce with access to latest state! Debounced function is
@@ -177,6 +60,35 @@ const DebounceHookDemo = () => {
         />
       </div>
 
+      <div className="mb-3 flex items-center gap-2 text-xs">
+        <span
+          className={
+            isPending
+              ? "text-amber-600 dark:text-amber-400"
+              : "text-emerald-600 dark:text-emerald-500"
+          }
+          aria-live="polite"
+        >
+          {isPending ? "⏳ Request queued" : "✓ Nothing queued"}
+        </span>
+        <button
+          onClick={flush}
+          disabled={!isPending}
+          className="rounded bg-emerald-500 px-2 py-0.5 text-white disabled:opacity-50"
+          type="button"
+        >
+          Send now
+        </button>
+        <button
+          onClick={cancel}
+          disabled={!isPending}
+          className="rounded bg-zinc-200 px-2 py-0.5 text-zinc-700 disabled:opacity-50 dark:bg-zinc-700 dark:text-zinc-300"
+          type="button"
+        >
+          Cancel
+        </button>
+      </div>
+
       <div className="rounded bg-zinc-800 p-3">
         <p className="mb-2 text-xs text-zinc-400">
           Requests sent (debounced, with access to all state):
@@ -231,8 +143,9 @@ const ThrottleHookDemo = () => {
 
   return (
     <div className="rounded-lg border border-blue-200 bg-blue-50 p-4 dark:border-blue-800 dark:bg-blue-900/20">
-      <h3 className="mb-3 font-semibold text-blue-700 dark:text-blue-400">
+      <h3 id="use-throttle-hook" className="scroll-mt-8 mb-3 font-semibold text-blue-700 dark:text-blue-400">
         ✅ useThrottle Hook (Auto-save)
+        <SectionLink id="use-throttle-hook" />
       </h3>
       <p className="mb-3 text-xs text-blue-600 dark:text-blue-500">
         Throttled save - fires at most once per second. Good for auto-save that
@@ -249,7 +162,7 @@ const ThrottleHookDemo = () => {
 
       <div className="rounded bg-zinc-800 p-3">
         <p className="mb-2 text-xs text-zinc-400">
-          Auto-saves (throttled to 1/second):
+          Auto-saves (throttled to 1/second){throttledSave.isPending && " · unsaved changes..."}
         </p>
         <div className="max-h-24 overflow-y-auto space-y-1">
           {saves.map((save, i) => (
@@ -283,8 +196,9 @@ const ThrottleHookDemo = () => {
 
 const SearchDemo = () => {
   const [query, setQuery] = useState("");
-  const [results, setResults] = useState<string[]>([]);
-  const [isSearching, setIsSearching] = useState(false);
+  // ✅ Only follows query once the user stops typing for 300ms
+  const debouncedQuery = useDebouncedValue(query, 300);
+  const isSearching = query !== debouncedQuery;
 
   // Simulated search API
   const fakeSearch = (q: string): string[] => {
@@ -302,29 +216,13 @@ const SearchDemo = () => {
     );
   };
 
-  // ✅ Debounced search - waits until user stops typing
-  const debouncedSearch = useDebounce(() => {
-    if (query.trim()) {
-      setIsSearching(true);
-      // Simulate API delay
-      setTimeout(() => {
-        setResults(fakeSearch(query));
-        setIsSearching(false);
-      }, 200);
-    } else {
-      setResults([]);
-    }
-  }, 300);
-
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setQuery(e.target.value);
-    debouncedSearch();
-  };
+  const results = debouncedQuery.trim() ? fakeSearch(debouncedQuery) : [];
 
   return (
     <div className="rounded-lg border border-purple-200 bg-purple-50 p-4 dark:border-purple-800 dark:bg-purple-900/20">
-      <h3 className="mb-3 font-semibold text-purple-700 dark:text-purple-400">
+      <h3 id="debounced-search" className="scroll-mt-8 mb-3 font-semibold text-purple-700 dark:text-purple-400">
         ✅ Debounced Search
+        <SectionLink id="debounced-search" />
       </h3>
       <p className="mb-3 text-xs text-purple-600 dark:text-purple-500">
         Real-world use case: search only fires 300ms after user stops typing.
@@ -333,7 +231,7 @@ const SearchDemo = () => {
       <input
         type="text"
         value={query}
-        onChange={handleChange}
+        onChange={(e) => setQuery(e.target.value)}
         placeholder='Search for "React"...'
         className="mb-3 w-full rounded border border-purple-300 px-3 py-2 text-sm dark:border-purple-700 dark:bg-zinc-800"
       />
@@ -451,6 +349,21 @@ const ChapterElevenOptimised = () => {
         </ol>
       </div>
 
+      {/* The hook the demos use */}
+      <div className="mb-6 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
+        <h3 className="mb-2 font-semibold">The Hook Behind the Demos</h3>
+        <p className="mb-3 text-sm text-zinc-600 dark:text-zinc-400">
+          The same idea, grown into a reusable hook: the returned function
+          also has <code>isPending</code>, <code>flush()</code> and{" "}
+          <code>cancel()</code>, takes leading, trailing and maxWait options,
+          and keeps a queued call when the delay changes.
+        </p>
+        <CodeBlock
+          {...getSnippet("hooks/use-debounce.ts#use-debounce")}
+          maxLines={20}
+        />
+      </div>
+
       {/* Demos */}
       <div className="space-y-6">
         <DebounceHookDemo />
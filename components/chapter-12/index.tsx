@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, useRef, useCallback } from "react";
+import SectionLink from "@/components/section-link";
 
 // ===========================================
 // HELPER: Calculate last visible item index
@@ -186,7 +187,7 @@ const BrowserTasksDemo = () => {
 
   return (
     <div className="rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
-      <h3 className="mb-3 font-semibold">Browser Tasks with useEffect</h3>
+      <h3 id="browser-tasks-use-effect" className="scroll-mt-8 mb-3 font-semibold">Browser Tasks with useEffect<SectionLink id="browser-tasks-use-effect" /></h3>
 
       <div className="mb-4 flex items-center gap-2">
         <button
@@ -275,7 +276,7 @@ const ChapterTwelve = () => {
 
       {/* Responsive Navigation Demo */}
       <div className="mb-6">
-        <h3 className="mb-3 font-semibold">Responsive Navigation (useEffect)</h3>
+        <h3 id="responsive-navigation-use-effect" className="scroll-mt-8 mb-3 font-semibold">Responsive Navigation (useEffect)<SectionLink id="responsive-navigation-use-effect" /></h3>
         <p className="mb-3 text-sm text-zinc-600 dark:text-zinc-400">
           Resize the container to see the navigation adapt. Notice the flicker
           on initial load!
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useLayoutEffect, useEffect, useRef, useCallback } from "react";
+import SectionLink from "@/components/section-link";
 
 // ===========================================
 // HELPER: Calculate last visible item index
@@ -211,7 +212,7 @@ const BrowserTasksDemo = () => {
 
   return (
     <div className="rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
-      <h3 className="mb-3 font-semibold">Browser Tasks with useLayoutEffect</h3>
+      <h3 id="browser-tasks-use-layout-effect" className="scroll-mt-8 mb-3 font-semibold">Browser Tasks with useLayoutEffect<SectionLink id="browser-tasks-use-layout-effect" /></h3>
 
       <div className="mb-4 flex items-center gap-2">
         <button
@@ -299,8 +300,9 @@ const ChapterTwelveOptimised = () => {
 
       {/* Responsive Navigation Demo */}
       <div className="mb-6">
-        <h3 className="mb-3 font-semibold">
+        <h3 id="responsive-navigation-use-layout-effect" className="scroll-mt-8 mb-3 font-semibold">
           Responsive Navigation (useLayoutEffect)
+          <SectionLink id="responsive-navigation-use-layout-effect" />
         </h3>
         <p className="mb-3 text-sm text-zinc-600 dark:text-zinc-400">
           Same navigation, but with useLayoutEffect. No flicker on initial load!
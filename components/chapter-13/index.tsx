@@ -1,37 +1,13 @@
 "use client";
 
 import { useState, useEffect } from "react";
-
-// ===========================================
-// SIMULATED FETCH WITH DELAY
-// ===========================================
-
-const simulateFetch = <T,>(data: T, delay: number): Promise<T> => {
-  return new Promise((resolve) => {
-    setTimeout(() => resolve(data), delay);
-  });
-};
-
-// Simulated API data
-const sidebarData = [
-  { id: 1, name: "Dashboard" },
-  { id: 2, name: "Projects" },
-  { id: 3, name: "Settings" },
-];
-
-const issueData = {
-  id: "ISSUE-123",
-  title: "Fix login bug",
-  description: "Users cannot login with special characters in password",
-  status: "In Progress",
-  assignee: "John Doe",
-};
-
-const commentsData = [
-  { id: 1, author: "Alice", text: "I can reproduce this issue" },
-  { id: 2, author: "Bob", text: "Working on a fix now" },
-  { id: 3, author: "Charlie", text: "Fixed in PR #456" },
-];
+import SectionLink from "@/components/section-link";
+import {
+  RequestLogProvider,
+  useTrackRequest,
+} from "@/components/network-waterfall";
+import { MockApiSettingsPanel } from "@/components/mock-api-settings";
+import { mockFetch, sidebarData } from "@/lib/mock-api";
 
 // ===========================================
 // CUSTOM HOOK FOR DATA FETCHING
@@ -39,6 +15,7 @@ const commentsData = [
 
 type UseDataResult<T> = {
   data: T | null;
+  error: Error | null;
   loading: boolean;
   time: number;
 };
@@ -48,39 +25,63 @@ const useData = <T,>(
   name: string
 ): UseDataResult<T> => {
   const [data, setData] = useState<T | null>(null);
+  const [error, setError] = useState<Error | null>(null);
   const [loading, setLoading] = useState(true);
   const [time, setTime] = useState(0);
+  const track = useTrackRequest();
 
   useEffect(() => {
     const start = Date.now();
     console.log(`[${name}] Fetch started`);
 
-    fetchFn().then((result) => {
-      const elapsed = Date.now() - start;
-      console.log(`[${name}] Fetch completed in ${elapsed}ms`);
-      setData(result);
-      setLoading(false);
-      setTime(elapsed);
-    });
+    track(name, fetchFn())
+      .then((result) => {
+        const elapsed = Date.now() - start;
+        console.log(`[${name}] Fetch completed in ${elapsed}ms`);
+        setData(result);
+        setLoading(false);
+        setTime(elapsed);
+      })
+      .catch((fetchError: Error) => {
+        console.log(`[${name}] Fetch failed: ${fetchError.message}`);
+        setError(fetchError);
+        setLoading(false);
+      });
   }, []);
 
-  return { data, loading, time };
+  return { data, error, loading, time };
 };
 
+// Shown in place of a component whose request failed
+const RequestFailed = ({ name, error }: { name: string; error: Error }) => (
+  <div
+    role="alert"
+    className="rounded border border-red-300 bg-red-50 p-3 dark:border-red-700 dark:bg-red-900/20"
+  >
+    <p className="text-sm text-red-600 dark:text-red-400">
+      {name} failed to load: {error.message}
+    </p>
+  </div>
+);
+
 // ===========================================
 // WATERFALL COMPONENTS (BAD!)
 // ===========================================
 
 // Comments - fetches after Issue renders
 const Comments = ({ onLoad }: { onLoad: (time: number) => void }) => {
-  const { data, loading, time } = useData(
-    () => simulateFetch(commentsData, 1500), // 1.5s delay
+  const { data, error, loading, time } = useData(
+    () => mockFetch("comments"), // 1.5s by default
     "Comments"
   );
 
   useEffect(() => {
-    if (!loading) onLoad(time);
-  }, [loading, time, onLoad]);
+    if (!loading && !error) onLoad(time);
+  }, [loading, error, time, onLoad]);
+
+  if (error) {
+    return <RequestFailed name="Comments" error={error} />;
+  }
 
   if (loading) {
     return (
@@ -115,8 +116,8 @@ const Comments = ({ onLoad }: { onLoad: (time: number) => void }) => {
 
 // Issue - fetches after Sidebar renders, then renders Comments
 const Issue = ({ onLoad }: { onLoad: (time: number) => void }) => {
-  const { data, loading, time } = useData(
-    () => simulateFetch(issueData, 1000), // 1s delay
+  const { data, error, loading, time } = useData(
+    () => mockFetch("issue"), // 1s by default
     "Issue"
   );
   const [commentsTime, setCommentsTime] = useState(0);
@@ -127,6 +128,14 @@ const Issue = ({ onLoad }: { onLoad: (time: number) => void }) => {
     }
   }, [loading, time, commentsTime, onLoad]);
 
+  if (error) {
+    return (
+      <div className="flex-1">
+        <RequestFailed name="Issue" error={error} />
+      </div>
+    );
+  }
+
   if (loading) {
     return (
       <div className="flex-1 rounded-lg border border-dashed border-blue-400 bg-blue-50 p-4 dark:border-blue-600 dark:bg-blue-900/20">
@@ -197,16 +206,21 @@ const WaterfallApp = () => {
   const [totalTime, setTotalTime] = useState(0);
   const [issueTime, setIssueTime] = useState(0);
 
-  const { data: sidebar, loading: sidebarLoading, time: sidebarTime } = useData(
-    () => simulateFetch(sidebarData, 500), // 0.5s delay
+  const {
+    data: sidebar,
+    error: sidebarError,
+    loading: sidebarLoading,
+    time: sidebarTime,
+  } = useData(
+    () => mockFetch("sidebar"), // 0.5s by default
     "Sidebar"
   );
 
   useEffect(() => {
-    if (!sidebarLoading) {
+    if (!sidebarLoading && !sidebarError) {
       setTimeline((prev) => [...prev, `Sidebar: ${sidebarTime}ms`]);
     }
-  }, [sidebarLoading, sidebarTime]);
+  }, [sidebarLoading, sidebarError, sidebarTime]);
 
   useEffect(() => {
     if (issueTime > 0) {
@@ -214,6 +228,11 @@ const WaterfallApp = () => {
     }
   }, [issueTime, sidebarTime]);
 
+  // Nothing below the sidebar ever starts fetching
+  if (sidebarError) {
+    return <RequestFailed name="Sidebar" error={sidebarError} />;
+  }
+
   if (sidebarLoading) {
     return (
       <div className="rounded-lg border border-dashed border-purple-400 bg-purple-50 p-4 dark:border-purple-600 dark:bg-purple-900/20">
@@ -279,7 +298,7 @@ const ChapterThirteen = () => {
 
       {/* Waterfall explanation */}
       <div className="mb-6 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
-        <h3 className="mb-3 font-semibold">What is a Request Waterfall?</h3>
+        <h3 id="request-waterfall" className="scroll-mt-8 mb-3 font-semibold">What is a Request Waterfall?<SectionLink id="request-waterfall" /></h3>
         <div className="space-y-2">
           <div className="flex items-center gap-2">
             <div className="h-4 w-16 rounded bg-purple-400" />
@@ -301,6 +320,8 @@ const ChapterThirteen = () => {
         </p>
       </div>
 
+      <MockApiSettingsPanel paths={["sidebar", "issue", "comments"]} />
+
       {/* Demo */}
       <div className="mb-6">
         <div className="mb-3 flex items-center gap-2">
@@ -312,11 +333,15 @@ const ChapterThirteen = () => {
             {showApp ? "Reset" : "Load App (Waterfall)"}
           </button>
           <span className="text-xs text-zinc-500">
-            Open console to see fetch timing
+            Each request is charted below the demo
           </span>
         </div>
 
-        {showApp && <WaterfallApp key={Date.now()} />}
+        {showApp && (
+          <RequestLogProvider key={Date.now()}>
+            <WaterfallApp />
+          </RequestLogProvider>
+        )}
       </div>
 
       {/* Why it happens */}
@@ -1,37 +1,32 @@
 "use client";
 
 import { useState, useEffect, createContext, useContext, ReactNode } from "react";
-
-// ===========================================
-// SIMULATED FETCH WITH DELAY
-// ===========================================
-
-const simulateFetch = <T,>(data: T, delay: number): Promise<T> => {
-  return new Promise((resolve) => {
-    setTimeout(() => resolve(data), delay);
-  });
-};
-
-// Simulated API data
-const sidebarData = [
-  { id: 1, name: "Dashboard" },
-  { id: 2, name: "Projects" },
-  { id: 3, name: "Settings" },
-];
-
-const issueData = {
-  id: "ISSUE-123",
-  title: "Fix login bug",
-  description: "Users cannot login with special characters in password",
-  status: "In Progress",
-  assignee: "John Doe",
-};
-
-const commentsData = [
-  { id: 1, author: "Alice", text: "I can reproduce this issue" },
-  { id: 2, author: "Bob", text: "Working on a fix now" },
-  { id: 3, author: "Charlie", text: "Fixed in PR #456" },
-];
+import SectionLink from "@/components/section-link";
+import {
+  RequestLogProvider,
+  useTrackRequest,
+} from "@/components/network-waterfall";
+import { MockApiSettingsPanel } from "@/components/mock-api-settings";
+import {
+  commentsData,
+  issueData,
+  mockFetch,
+  sidebarData,
+} from "@/lib/mock-api";
+import { useQuery } from "@/hooks/use-query";
+import { queryCache } from "@/lib/query-cache";
+
+// Shown in place of a section whose request failed
+const RequestFailed = ({ name, error }: { name: string; error: Error }) => (
+  <div
+    role="alert"
+    className="rounded border border-red-300 bg-red-50 p-3 dark:border-red-700 dark:bg-red-900/20"
+  >
+    <p className="text-sm text-red-600 dark:text-red-400">
+      {name} failed to load: {error.message}
+    </p>
+  </div>
+);
 
 // ===========================================
 // SOLUTION 1: Promise.all (fetch all, wait all)
@@ -41,6 +36,7 @@ type AllData = {
   sidebar: typeof sidebarData | null;
   issue: typeof issueData | null;
   comments: typeof commentsData | null;
+  error: Error | null;
   loading: boolean;
   totalTime: number;
 };
@@ -51,31 +47,44 @@ const useAllData = (): AllData => {
     issue: typeof issueData | null;
     comments: typeof commentsData | null;
   }>({ sidebar: null, issue: null, comments: null });
+  const [error, setError] = useState<Error | null>(null);
   const [loading, setLoading] = useState(true);
   const [totalTime, setTotalTime] = useState(0);
+  const track = useTrackRequest();
 
   useEffect(() => {
     const start = Date.now();
     console.log("[Promise.all] All fetches started in parallel");
 
     Promise.all([
-      simulateFetch(sidebarData, 500),
-      simulateFetch(issueData, 1000),
-      simulateFetch(commentsData, 1500),
-    ]).then(([sidebar, issue, comments]) => {
-      const elapsed = Date.now() - start;
-      console.log(`[Promise.all] All fetches completed in ${elapsed}ms`);
-      setData({ sidebar, issue, comments });
-      setLoading(false);
-      setTotalTime(elapsed);
-    });
-  }, []);
-
-  return { ...data, loading, totalTime };
+      track("Sidebar", mockFetch("sidebar")),
+      track("Issue", mockFetch("issue")),
+      track("Comments", mockFetch("comments")),
+    ])
+      .then(([sidebar, issue, comments]) => {
+        const elapsed = Date.now() - start;
+        console.log(`[Promise.all] All fetches completed in ${elapsed}ms`);
+        setData({ sidebar, issue, comments });
+        setLoading(false);
+        setTotalTime(elapsed);
+      })
+      .catch((fetchError: Error) => {
+        // One failure rejects the whole batch, even what already arrived
+        console.log(`[Promise.all] Failed: ${fetchError.message}`);
+        setError(fetchError);
+        setLoading(false);
+      });
+  }, [track]);
+
+  return { ...data, error, loading, totalTime };
 };
 
 const PromiseAllApp = () => {
-  const { sidebar, issue, comments, loading, totalTime } = useAllData();
+  const { sidebar, issue, comments, error, loading, totalTime } = useAllData();
+
+  if (error) {
+    return <RequestFailed name="Page" error={error} />;
+  }
 
   if (loading) {
     return (
@@ -157,39 +166,51 @@ const useParallelData = () => {
   const [issue, setIssue] = useState<typeof issueData | null>(null);
   const [comments, setComments] = useState<typeof commentsData | null>(null);
   const [times, setTimes] = useState({ sidebar: 0, issue: 0, comments: 0 });
+  const [errors, setErrors] = useState<{
+    sidebar?: Error;
+    issue?: Error;
+    comments?: Error;
+  }>({});
+  const track = useTrackRequest();
 
   useEffect(() => {
     const start = Date.now();
     console.log("[Parallel] All fetches started in parallel");
 
+    // Failures stay local to their section too
+    const onError = (key: keyof typeof errors) => (error: Error) => {
+      console.log(`[Parallel] ${key} failed: ${error.message}`);
+      setErrors((e) => ({ ...e, [key]: error }));
+    };
+
     // Fire all in parallel, resolve independently!
-    simulateFetch(sidebarData, 500).then((data) => {
+    track("Sidebar", mockFetch("sidebar")).then((data) => {
       const elapsed = Date.now() - start;
       console.log(`[Parallel] Sidebar loaded in ${elapsed}ms`);
       setSidebar(data);
       setTimes((t) => ({ ...t, sidebar: elapsed }));
-    });
+    }, onError("sidebar"));
 
-    simulateFetch(issueData, 1000).then((data) => {
+    track("Issue", mockFetch("issue")).then((data) => {
       const elapsed = Date.now() - start;
       console.log(`[Parallel] Issue loaded in ${elapsed}ms`);
       setIssue(data);
       setTimes((t) => ({ ...t, issue: elapsed }));
-    });
+    }, onError("issue"));
 
-    simulateFetch(commentsData, 1500).then((data) => {
+    track("Comments", mockFetch("comments")).then((data) => {
       const elapsed = Date.now() - start;
       console.log(`[Parallel] Comments loaded in ${elapsed}ms`);
       setComments(data);
       setTimes((t) => ({ ...t, comments: elapsed }));
-    });
-  }, []);
+    }, onError("comments"));
+  }, [track]);
 
-  return { sidebar, issue, comments, times };
+  return { sidebar, issue, comments, times, errors };
 };
 
 const ParallelApp = () => {
-  const { sidebar, issue, comments, times } = useParallelData();
+  const { sidebar, issue, comments, times, errors } = useParallelData();
 
   return (
     <div className="space-y-4">
@@ -209,6 +230,10 @@ const ParallelApp = () => {
               </div>
             ))}
           </div>
+        ) : errors.sidebar ? (
+          <div className="w-32">
+            <RequestFailed name="Sidebar" error={errors.sidebar} />
+          </div>
         ) : (
           <div className="w-32 rounded-lg border border-dashed border-purple-400 bg-purple-50 p-3 dark:border-purple-600 dark:bg-purple-900/20">
             <div className="flex items-center gap-2">
@@ -230,6 +255,8 @@ const ParallelApp = () => {
                 {issue.description}
               </p>
             </div>
+          ) : errors.issue ? (
+            <RequestFailed name="Issue" error={errors.issue} />
           ) : (
             <div className="rounded border border-dashed border-blue-400 bg-blue-50 p-3 dark:border-blue-600 dark:bg-blue-900/20">
               <div className="flex items-center gap-2">
@@ -256,6 +283,8 @@ const ParallelApp = () => {
                 </div>
               ))}
             </div>
+          ) : errors.comments ? (
+            <RequestFailed name="Comments" error={errors.comments} />
           ) : (
             <div className="rounded border border-dashed border-amber-400 bg-amber-50 p-3 dark:border-amber-600 dark:bg-amber-900/20">
               <div className="flex items-center gap-2">
@@ -283,57 +312,78 @@ const ParallelApp = () => {
 // SOLUTION 3: Data Providers (Context-based)
 // ===========================================
 
+// What each provider shares: the data, or why it never arrived
+type Provided<T> = { data: T | null; error: Error | null };
+const NOT_LOADED = { data: null, error: null };
+
 // Sidebar Context
-const SidebarContext = createContext<typeof sidebarData | null>(null);
+const SidebarContext = createContext<Provided<typeof sidebarData>>(NOT_LOADED);
 const SidebarProvider = ({ children }: { children: ReactNode }) => {
-  const [data, setData] = useState<typeof sidebarData | null>(null);
+  const [value, setValue] =
+    useState<Provided<typeof sidebarData>>(NOT_LOADED);
+  const track = useTrackRequest();
 
   useEffect(() => {
     console.log("[Provider] Sidebar fetch started");
-    simulateFetch(sidebarData, 500).then(setData);
-  }, []);
+    track("Sidebar", mockFetch("sidebar")).then(
+      (data) => setValue({ data, error: null }),
+      (error: Error) => setValue({ data: null, error })
+    );
+  }, [track]);
 
   return (
-    <SidebarContext.Provider value={data}>{children}</SidebarContext.Provider>
+    <SidebarContext.Provider value={value}>{children}</SidebarContext.Provider>
   );
 };
 const useSidebar = () => useContext(SidebarContext);
 
 // Issue Context
-const IssueContext = createContext<typeof issueData | null>(null);
+const IssueContext = createContext<Provided<typeof issueData>>(NOT_LOADED);
 const IssueProvider = ({ children }: { children: ReactNode }) => {
-  const [data, setData] = useState<typeof issueData | null>(null);
+  const [value, setValue] = useState<Provided<typeof issueData>>(NOT_LOADED);
+  const track = useTrackRequest();
 
   useEffect(() => {
     console.log("[Provider] Issue fetch started");
-    simulateFetch(issueData, 1000).then(setData);
-  }, []);
+    track("Issue", mockFetch("issue")).then(
+      (data) => setValue({ data, error: null }),
+      (error: Error) => setValue({ data: null, error })
+    );
+  }, [track]);
 
-  return <IssueContext.Provider value={data}>{children}</IssueContext.Provider>;
+  return (
+    <IssueContext.Provider value={value}>{children}</IssueContext.Provider>
+  );
 };
 const useIssue = () => useContext(IssueContext);
 
 // Comments Context
-const CommentsContext = createContext<typeof commentsData | null>(null);
+const CommentsContext =
+  createContext<Provided<typeof commentsData>>(NOT_LOADED);
 const CommentsProvider = ({ children }: { children: ReactNode }) => {
-  const [data, setData] = useState<typeof commentsData | null>(null);
+  const [value, setValue] =
+    useState<Provided<typeof commentsData>>(NOT_LOADED);
+  const track = useTrackRequest();
 
   useEffect(() => {
     console.log("[Provider] Comments fetch started");
-    simulateFetch(commentsData, 1500).then(setData);
-  }, []);
+    track("Comments", mockFetch("comments")).then(
+      (data) => setValue({ data, error: null }),
+      (error: Error) => setValue({ data: null, error })
+    );
+  }, [track]);
 
   return (
-    <CommentsContext.Provider value={data}>{children}</CommentsContext.Provider>
+    <CommentsContext.Provider value={value}>{children}</CommentsContext.Provider>
   );
 };
 const useComments = () => useContext(CommentsContext);
 
 // App using providers
 const ProviderBasedApp = () => {
-  const sidebar = useSidebar();
-  const issue = useIssue();
-  const comments = useComments();
+  const { data: sidebar, error: sidebarError } = useSidebar();
+  const { data: issue, error: issueError } = useIssue();
+  const { data: comments, error: commentsError } = useComments();
 
   return (
     <div className="space-y-4">
@@ -351,6 +401,10 @@ const ProviderBasedApp = () => {
               </div>
             ))}
           </div>
+        ) : sidebarError ? (
+          <div className="w-32">
+            <RequestFailed name="Sidebar" error={sidebarError} />
+          </div>
         ) : (
           <div className="w-32 animate-pulse rounded-lg bg-zinc-200 p-3 dark:bg-zinc-700" />
         )}
@@ -364,6 +418,8 @@ const ProviderBasedApp = () => {
               </span>
               <h3 className="mt-2 text-lg font-semibold">{issue.title}</h3>
             </div>
+          ) : issueError ? (
+            <RequestFailed name="Issue" error={issueError} />
           ) : (
             <div className="animate-pulse space-y-2">
               <div className="h-4 w-20 rounded bg-zinc-200 dark:bg-zinc-600" />
@@ -380,6 +436,8 @@ const ProviderBasedApp = () => {
                 </div>
               ))}
             </div>
+          ) : commentsError ? (
+            <RequestFailed name="Comments" error={commentsError} />
           ) : (
             <div className="animate-pulse space-y-2">
               <div className="h-4 w-24 rounded bg-zinc-200 dark:bg-zinc-600" />
@@ -411,6 +469,162 @@ const ProviderApp = () => (
   </SidebarProvider>
 );
 
+// ===========================================
+// SOLUTION 4: Query cache (shared, deduplicated requests)
+// ===========================================
+
+const ISSUE_QUERY_KEY = "chapter-13/issue";
+const ISSUE_STALE_TIME = 5000;
+
+const simulateFailure = (message: string, delay: number): Promise<never> => {
+  return new Promise((_, reject) => {
+    setTimeout(() => reject(new Error(message)), delay);
+  });
+};
+
+type IssueFetcher = () => Promise<typeof issueData>;
+
+// Both readers ask for the same key: the cache fires one request for both
+const useIssueQuery = (fetchIssue: IssueFetcher) =>
+  useQuery(ISSUE_QUERY_KEY, fetchIssue, {
+    staleTime: ISSUE_STALE_TIME,
+    retry: 2,
+  });
+
+const QueryLoading = ({ label }: { label: string }) => (
+  <div className="flex items-center gap-2">
+    <div className="h-3 w-3 animate-spin rounded-full border-2 border-orange-500 border-t-transparent" />
+    <span className="text-xs text-orange-500">{label}</span>
+  </div>
+);
+
+const QueryIssueHeader = ({ fetchIssue }: { fetchIssue: IssueFetcher }) => {
+  const { data, isFetching } = useIssueQuery(fetchIssue);
+
+  return (
+    <div className="rounded border border-zinc-200 bg-white p-3 dark:border-zinc-700 dark:bg-zinc-800">
+      <p className="mb-1 text-xs font-medium text-zinc-500">IssueHeader</p>
+      {data ? (
+        <div className="flex items-center gap-2">
+          <span className="rounded bg-blue-100 px-2 py-0.5 text-xs font-medium text-blue-700 dark:bg-blue-900 dark:text-blue-300">
+            {data.id}
+          </span>
+          <span className="text-sm font-semibold">{data.title}</span>
+          {isFetching && <QueryLoading label="revalidating" />}
+        </div>
+      ) : (
+        <QueryLoading label="Loading issue..." />
+      )}
+    </div>
+  );
+};
+
+const QueryIssueDetails = ({ fetchIssue }: { fetchIssue: IssueFetcher }) => {
+  const { data, error, status, isFetching, failureCount, refetch } =
+    useIssueQuery(fetchIssue);
+
+  if (status === "error" && !data) {
+    return (
+      <div
+        role="alert"
+        className="rounded border border-red-300 bg-red-50 p-3 dark:border-red-700 dark:bg-red-900/20"
+      >
+        <p className="text-sm text-red-600 dark:text-red-400">
+          {error?.message} (after {failureCount} attempts)
+        </p>
+        <button
+          onClick={refetch}
+          className="mt-2 rounded bg-red-500 px-2 py-1 text-xs text-white hover:bg-red-600"
+          type="button"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded border border-zinc-200 bg-white p-3 dark:border-zinc-700 dark:bg-zinc-800">
+      <p className="mb-1 text-xs font-medium text-zinc-500">IssueDetails</p>
+      {data ? (
+        <p className="text-sm">
+          {data.status} · assigned to {data.assignee}
+        </p>
+      ) : (
+        <QueryLoading
+          label={
+            failureCount > 0
+              ? `Retrying (attempt ${failureCount + 1})...`
+              : "Loading details..."
+          }
+        />
+      )}
+      {status === "error" && data && (
+        <p className="mt-1 text-xs text-red-500">
+          Revalidation failed, showing cached data: {error?.message}
+        </p>
+      )}
+      {isFetching && data && failureCount > 0 && (
+        <p className="mt-1 text-xs text-orange-500">
+          Revalidation failed {failureCount}x, retrying...
+        </p>
+      )}
+    </div>
+  );
+};
+
+const SharedQueryDemo = () => {
+  const [requestCount, setRequestCount] = useState(0);
+  const [failRequests, setFailRequests] = useState(false);
+  const [showThirdReader, setShowThirdReader] = useState(false);
+
+  // A new function every render - useQuery only uses the latest one
+  const fetchIssue = () => {
+    setRequestCount((count) => count + 1);
+    return failRequests
+      ? simulateFailure("503: issue service unavailable", 1000)
+      : mockFetch("issue");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <QueryIssueHeader fetchIssue={fetchIssue} />
+        <QueryIssueDetails fetchIssue={fetchIssue} />
+      </div>
+      {showThirdReader && <QueryIssueHeader fetchIssue={fetchIssue} />}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => queryCache.invalidate(ISSUE_QUERY_KEY)}
+          className="rounded bg-orange-500 px-3 py-1.5 text-sm text-white hover:bg-orange-600"
+          type="button"
+        >
+          Invalidate
+        </button>
+        <button
+          onClick={() => setShowThirdReader((show) => !show)}
+          className="rounded bg-zinc-200 px-3 py-1.5 text-sm hover:bg-zinc-300 dark:bg-zinc-700 dark:hover:bg-zinc-600"
+          type="button"
+        >
+          {showThirdReader ? "Unmount" : "Mount"} third reader
+        </button>
+        <label className="flex items-center gap-1.5 text-sm">
+          <input
+            type="checkbox"
+            checked={failRequests}
+            onChange={(e) => setFailRequests(e.target.checked)}
+          />
+          Fail requests
+        </label>
+        <span className="ml-auto text-xs text-zinc-500">
+          Requests sent: <strong>{requestCount}</strong>
+        </span>
+      </div>
+    </div>
+  );
+};
+
 // ===========================================
 // MAIN COMPONENT
 // ===========================================
@@ -438,7 +652,7 @@ const ChapterThirteenOptimised = () => {
 
       {/* Parallel vs Sequential */}
       <div className="mb-6 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
-        <h3 className="mb-3 font-semibold">Parallel vs Sequential Fetching</h3>
+        <h3 id="parallel-vs-sequential" className="scroll-mt-8 mb-3 font-semibold">Parallel vs Sequential Fetching<SectionLink id="parallel-vs-sequential" /></h3>
         <div className="space-y-3">
           <div>
             <p className="text-xs font-medium text-red-500 mb-1">
@@ -465,6 +679,8 @@ const ChapterThirteenOptimised = () => {
         </div>
       </div>
 
+      <MockApiSettingsPanel paths={["sidebar", "issue", "comments"]} />
+
       {/* Demo buttons */}
       <div className="mb-4 flex flex-wrap gap-2">
         <button
@@ -501,9 +717,21 @@ const ChapterThirteenOptimised = () => {
 
       {/* Active Demo */}
       <div className="mb-6">
-        {activeDemo === "promise-all" && <PromiseAllApp key={Date.now()} />}
-        {activeDemo === "parallel" && <ParallelApp key={Date.now()} />}
-        {activeDemo === "providers" && <ProviderApp key={Date.now()} />}
+        {activeDemo === "promise-all" && (
+          <RequestLogProvider key={Date.now()}>
+            <PromiseAllApp />
+          </RequestLogProvider>
+        )}
+        {activeDemo === "parallel" && (
+          <RequestLogProvider key={Date.now()}>
+            <ParallelApp />
+          </RequestLogProvider>
+        )}
+        {activeDemo === "providers" && (
+          <RequestLogProvider key={Date.now()}>
+            <ProviderApp />
+          </RequestLogProvider>
+        )}
         {!activeDemo && (
           <div className="rounded-lg border border-dashed border-zinc-300 p-8 text-center text-zinc-400 dark:border-zinc-700">
             Click a button above to see the demo
@@ -513,7 +741,7 @@ const ChapterThirteenOptimised = () => {
 
       {/* Solutions comparison */}
       <div className="mb-6 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
-        <h3 className="mb-3 font-semibold">Solutions Comparison</h3>
+        <h3 id="solutions-comparison" className="scroll-mt-8 mb-3 font-semibold">Solutions Comparison<SectionLink id="solutions-comparison" /></h3>
         <div className="space-y-3 text-sm">
           <div className="rounded bg-emerald-100 p-3 dark:bg-emerald-900/30">
             <h4 className="font-medium text-emerald-700 dark:text-emerald-400">
@@ -547,7 +775,7 @@ const ChapterThirteenOptimised = () => {
 
       {/* Code example */}
       <div className="rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
-        <h3 className="mb-2 font-semibold">Parallel Promises Pattern</h3>
+        <h3 id="parallel-promises-pattern" className="scroll-mt-8 mb-2 font-semibold">Parallel Promises Pattern<SectionLink id="parallel-promises-pattern" /></h3>
         <pre className="overflow-x-auto text-xs text-zinc-600 dark:text-zinc-400">
 {`// Fire all fetches at once, resolve independently
 useEffect(() => {
@@ -567,6 +795,19 @@ return (
 );`}
         </pre>
       </div>
+
+      {/* Query cache */}
+      <div className="mt-6 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
+        <h3 id="shared-query" className="scroll-mt-8 mb-2 font-semibold">Sharing One Request with a Query Cache<SectionLink id="shared-query" /></h3>
+        <p className="mb-3 text-sm text-zinc-600 dark:text-zinc-400">
+          Both components below call <code>useQuery(&quot;issue&quot;, fetchIssue)</code>.
+          The cache sees the same key and fires a single request. Data stays
+          fresh for {ISSUE_STALE_TIME / 1000}s; after that a new reader shows
+          the cached issue straight away and revalidates in the background.
+          Failed requests are retried twice before the error is shown.
+        </p>
+        <SharedQueryDemo />
+      </div>
     </div>
   );
 };
@@ -1,39 +1,36 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import SectionLink from "@/components/section-link";
+import {
+  RequestLogProvider,
+  useTrackRequest,
+} from "@/components/network-waterfall";
+import { MockApiSettingsPanel } from "@/components/mock-api-settings";
+import {
+  RaceTimelineProvider,
+  useRaceTimeline,
+  useReportDisplayedIssue,
+} from "@/components/race-timeline";
+import {
+  issuePath,
+  issuesData,
+  mockRequest,
+  RACE_CONDITION_PRESET,
+} from "@/lib/mock-api";
 
 // ===========================================
 // SIMULATED FETCH WITH RANDOM DELAY
 // ===========================================
 
-const issuesData: Record<string, { id: string; title: string; description: string }> = {
-  "1": {
-    id: "ISSUE-1",
-    title: "Login Bug",
-    description: "Users cannot login with special characters",
-  },
-  "2": {
-    id: "ISSUE-2",
-    title: "Dashboard Crash",
-    description: "Dashboard crashes on mobile devices",
-  },
-  "3": {
-    id: "ISSUE-3",
-    title: "Payment Failed",
-    description: "Payment processing times out randomly",
-  },
-};
-
-// Simulated fetch with RANDOM delay to cause race conditions
+// Varying delays (0.5-2.5s by default) to cause race conditions
 const simulateFetch = (id: string): Promise<typeof issuesData["1"]> => {
-  const delay = Math.random() * 2000 + 500; // 500ms - 2500ms random delay
+  const { delay, response } = mockRequest(issuePath(id));
   console.log(`[Fetch] Started for Issue ${id} (will take ${Math.round(delay)}ms)`);
 
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      console.log(`[Fetch] Completed for Issue ${id}`);
-      resolve(issuesData[id]);
-    }, delay);
+  return response.then((issue) => {
+    console.log(`[Fetch] Completed for Issue ${id}`);
+    return issue;
   });
 };
 
@@ -42,20 +39,39 @@ const simulateFetch = (id: string): Promise<typeof issuesData["1"]> => {
 // ===========================================
 
 const Page = ({ id }: { id: string }) => {
+  // #region page-fetching
   const [data, setData] = useState<typeof issuesData["1"] | null>(null);
+  const [error, setError] = useState<Error | null>(null);
   const [loading, setLoading] = useState(true);
+  const track = useTrackRequest();
+  const race = useRaceTimeline();
+
+  // "ISSUE-2" -> "2": lets the timeline spot a response shown on the wrong tab
+  useReportDisplayedIssue(
+    loading || error || !data ? null : data.id.split("-")[1]
+  );
 
   useEffect(() => {
     setLoading(true);
 
     // ❌ Race condition: if id changes while fetch is in progress,
     // the old fetch can still complete and update state!
-    simulateFetch(id).then((result) => {
-      console.log(`[State] Setting data for Issue ${result.id}`);
-      setData(result);
-      setLoading(false);
-    });
-  }, [id]);
+    race.track(id, track(`Issue ${id}`, simulateFetch(id))).then(
+      (result) => {
+        console.log(`[State] Setting data for Issue ${result.id}`);
+        setData(result);
+        setError(null);
+        setLoading(false);
+      },
+      // Failures race too: an old request can fail the current tab
+      (fetchError: Error) => {
+        console.log(`[State] Setting error: ${fetchError.message}`);
+        setError(fetchError);
+        setLoading(false);
+      }
+    );
+  }, [id, track, race]);
+  // #endregion
 
   if (loading) {
     return (
@@ -70,6 +86,19 @@ const Page = ({ id }: { id: string }) => {
     );
   }
 
+  if (error) {
+    return (
+      <div
+        role="alert"
+        className="flex-1 rounded-lg border border-red-300 bg-red-50 p-6 dark:border-red-700 dark:bg-red-900/20"
+      >
+        <p className="text-red-600 dark:text-red-400">
+          Issue {id} failed to load: {error.message}
+        </p>
+      </div>
+    );
+  }
+
   return (
     <div className="flex-1 rounded-lg border border-zinc-200 bg-white p-6 dark:border-zinc-700 dark:bg-zinc-800">
       <span className="rounded bg-blue-100 px-2 py-0.5 text-xs font-medium text-blue-700 dark:bg-blue-900 dark:text-blue-300">
@@ -89,6 +118,7 @@ const Page = ({ id }: { id: string }) => {
 
 const RaceConditionApp = () => {
   const [page, setPage] = useState("1");
+  const race = useRaceTimeline();
   const [log, setLog] = useState<string[]>([]);
 
   // Override console.log to capture logs
@@ -113,7 +143,10 @@ const RaceConditionApp = () => {
         {["1", "2", "3"].map((id) => (
           <button
             key={id}
-            onClick={() => setPage(id)}
+            onClick={() => {
+              setPage(id);
+              race.select(id);
+            }}
             className={`rounded-lg px-4 py-2 text-sm font-medium transition-colors ${
               page === id
                 ? "bg-blue-500 text-white"
@@ -214,7 +247,7 @@ const ChapterFourteen = () => {
 
       {/* Visual diagram */}
       <div className="mb-6 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
-        <h3 className="mb-3 font-semibold">Timeline of a Race Condition</h3>
+        <h3 id="race-condition-timeline" className="scroll-mt-8 mb-3 font-semibold">Timeline of a Race Condition<SectionLink id="race-condition-timeline" /></h3>
         <div className="space-y-2 text-xs">
           <div className="flex items-center gap-2">
             <span className="w-16 text-zinc-500">0ms</span>
@@ -239,6 +272,11 @@ const ChapterFourteen = () => {
         </div>
       </div>
 
+      <MockApiSettingsPanel
+        paths={["issues/1", "issues/2", "issues/3"]}
+        presets={[RACE_CONDITION_PRESET]}
+      />
+
       {/* Demo */}
       <div className="mb-6">
         <button
@@ -249,12 +287,18 @@ const ChapterFourteen = () => {
           {showApp ? "Hide Demo" : "Show Race Condition Demo"}
         </button>
 
-        {showApp && <RaceConditionApp key={Date.now()} />}
+        {showApp && (
+          <RequestLogProvider key={Date.now()}>
+            <RaceTimelineProvider initialId="1">
+              <RaceConditionApp />
+            </RaceTimelineProvider>
+          </RequestLogProvider>
+        )}
       </div>
 
       {/* The problematic code */}
       <div className="mb-6 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
-        <h3 className="mb-2 font-semibold">❌ Problematic Code</h3>
+        <h3 id="problematic-code" className="scroll-mt-8 mb-2 font-semibold">❌ Problematic Code<SectionLink id="problematic-code" /></h3>
         <pre className="overflow-x-auto text-xs text-zinc-600 dark:text-zinc-400">
 {`const Page = ({ id }) => {
   const [data, setData] = useState(null);
@@ -1,78 +1,147 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+import SectionLink from "@/components/section-link";
+import {
+  RequestLogProvider,
+  useTrackRequest,
+} from "@/components/network-waterfall";
+import { MockApiSettingsPanel } from "@/components/mock-api-settings";
+import {
+  RaceTimelineProvider,
+  useRaceTimeline,
+  useReportDisplayedIssue,
+} from "@/components/race-timeline";
+import { CodeBlock } from "@/components/ui/code-block";
+import { CodeDiff } from "@/components/ui/code-diff";
+import { useAsync, type AsyncState } from "@/hooks/use-async";
+import { useLocationHash } from "@/hooks/use-location-hash";
+import { usePrefetchIntent } from "@/hooks/use-prefetch-intent";
+import { useQuery } from "@/hooks/use-query";
+import {
+  issuePath,
+  issuesData,
+  mockFetch,
+  RACE_CONDITION_PRESET,
+} from "@/lib/mock-api";
+import { createQueryCache, type QueryCache } from "@/lib/query-cache";
+import { getSnippet } from "@/lib/snippets";
 
 // ===========================================
 // SIMULATED FETCH WITH RANDOM DELAY
 // ===========================================
 
-const issuesData: Record<string, { id: string; title: string; description: string }> = {
-  "1": {
-    id: "ISSUE-1",
-    title: "Login Bug",
-    description: "Users cannot login with special characters",
-  },
-  "2": {
-    id: "ISSUE-2",
-    title: "Dashboard Crash",
-    description: "Dashboard crashes on mobile devices",
-  },
-  "3": {
-    id: "ISSUE-3",
-    title: "Payment Failed",
-    description: "Payment processing times out randomly",
-  },
-};
-
-// Simulated fetch with random delay
+// Varying delays (0.5-2.5s by default), abortable like a real fetch
 const simulateFetch = (
   id: string,
   signal?: AbortSignal
-): Promise<typeof issuesData["1"]> => {
-  const delay = Math.random() * 2000 + 500;
-
-  return new Promise((resolve, reject) => {
-    const timeout = setTimeout(() => {
-      resolve(issuesData[id]);
-    }, delay);
-
-    // Support AbortController
-    signal?.addEventListener("abort", () => {
-      clearTimeout(timeout);
-      reject(new DOMException("Aborted", "AbortError"));
-    });
-  });
-};
+): Promise<typeof issuesData["1"]> => mockFetch(issuePath(id), { signal });
 
 // ===========================================
-// SOLUTION 1: Compare result with current ID (using Ref)
+// SHARED ISSUE VIEW
 // ===========================================
 
-const PageWithRefComparison = ({ id }: { id: string }) => {
-  const [data, setData] = useState<typeof issuesData["1"] | null>(null);
-  const [loading, setLoading] = useState(true);
-  const currentIdRef = useRef(id);
+type Issue = typeof issuesData["1"];
+
+type Tone = "emerald" | "blue" | "purple";
+
+const toneClassNames: Record<
+  Tone,
+  { loading: string; spinner: string; text: string; card: string; badge: string }
+> = {
+  emerald: {
+    loading:
+      "border-emerald-400 bg-emerald-50 dark:border-emerald-600 dark:bg-emerald-900/20",
+    spinner: "border-emerald-500",
+    text: "text-emerald-600 dark:text-emerald-400",
+    card: "border-emerald-300 dark:border-emerald-700",
+    badge:
+      "bg-emerald-100 text-emerald-700 dark:bg-emerald-900 dark:text-emerald-300",
+  },
+  blue: {
+    loading:
+      "border-blue-400 bg-blue-50 dark:border-blue-600 dark:bg-blue-900/20",
+    spinner: "border-blue-500",
+    text: "text-blue-600 dark:text-blue-400",
+    card: "border-blue-300 dark:border-blue-700",
+    badge: "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300",
+  },
+  purple: {
+    loading:
+      "border-purple-400 bg-purple-50 dark:border-purple-600 dark:bg-purple-900/20",
+    spinner: "border-purple-500",
+    text: "text-purple-600 dark:text-purple-400",
+    card: "border-purple-300 dark:border-purple-700",
+    badge:
+      "bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300",
+  },
+};
 
-  useEffect(() => {
-    // Update ref with latest id
-    currentIdRef.current = id;
-    setLoading(true);
+// Each request shows up in the network waterfall and the race timeline
+const useIssueFetcher = () => {
+  const track = useTrackRequest();
+  const race = useRaceTimeline();
 
-    simulateFetch(id).then((result) => {
-      // ✅ Only update if result matches current id
-      if (currentIdRef.current === result.id.split("-")[1]) {
-        setData(result);
-        setLoading(false);
-      }
-    });
-  }, [id]);
+  return useCallback(
+    (id: string, signal?: AbortSignal) =>
+      race.track(id, track(`Issue ${id}`, simulateFetch(id, signal))),
+    [race, track]
+  );
+};
+
+// "ISSUE-2" -> "2", the tab an issue belongs to
+const toTabId = (issue: Issue) => issue.id.split("-")[1];
+
+// Loading, error and loaded states of one issue, however a page loads it
+const IssueResult = ({
+  id,
+  issue,
+  tone,
+}: {
+  id: string;
+  issue: AsyncState<Issue> & { reload: () => void };
+  tone: Tone;
+}) => {
+  const classNames = toneClassNames[tone];
+
+  useReportDisplayedIssue(
+    issue.status === "success" && issue.data ? toTabId(issue.data) : null
+  );
+
+  if (issue.status === "error") {
+    return (
+      <div
+        role="alert"
+        className="rounded-lg border border-red-300 bg-red-50 p-4 dark:border-red-700 dark:bg-red-900/20"
+      >
+        <p className="text-sm text-red-600 dark:text-red-400">
+          Issue {id} failed to load: {issue.error?.message}
+        </p>
+        <button
+          onClick={issue.reload}
+          className="mt-2 rounded bg-red-500 px-3 py-1 text-sm text-white hover:bg-red-600"
+          type="button"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
 
-  if (loading) {
+  if (!issue.data) {
     return (
-      <div className="rounded-lg border border-dashed border-emerald-400 bg-emerald-50 p-4 dark:border-emerald-600 dark:bg-emerald-900/20">
+      <div className={`rounded-lg border border-dashed p-4 ${classNames.loading}`}>
         <div className="flex items-center gap-2">
-          <div className="h-4 w-4 animate-spin rounded-full border-2 border-emerald-500 border-t-transparent" />
-          <span className="text-sm text-emerald-600 dark:text-emerald-400">
+          <div
+            className={`h-4 w-4 animate-spin rounded-full border-2 border-t-transparent ${classNames.spinner}`}
+          />
+          <span className={`text-sm ${classNames.text}`}>
             Loading Issue {id}...
           </span>
         </div>
@@ -80,127 +149,153 @@ const PageWithRefComparison = ({ id }: { id: string }) => {
     );
   }
 
+  // Previous issue kept on screen (keepPreviousData) while the next loads
+  const isRefreshing = issue.status === "pending";
+
   return (
-    <div className="rounded-lg border border-emerald-300 bg-white p-4 dark:border-emerald-700 dark:bg-zinc-800">
-      <span className="rounded bg-emerald-100 px-2 py-0.5 text-xs font-medium text-emerald-700 dark:bg-emerald-900 dark:text-emerald-300">
-        {data?.id}
-      </span>
-      <h3 className="mt-2 font-semibold">{data?.title}</h3>
+    <div
+      className={`rounded-lg border bg-white p-4 transition-opacity dark:bg-zinc-800 ${classNames.card} ${
+        isRefreshing ? "opacity-50" : ""
+      }`}
+      aria-busy={isRefreshing}
+    >
+      <div className="flex items-center gap-2">
+        <span className={`rounded px-2 py-0.5 text-xs font-medium ${classNames.badge}`}>
+          {issue.data.id}
+        </span>
+        {isRefreshing && (
+          <span className={`text-xs ${classNames.text}`}>
+            Loading Issue {id}...
+          </span>
+        )}
+      </div>
+      <h3 className="mt-2 font-semibold">{issue.data.title}</h3>
       <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
-        {data?.description}
+        {issue.data.description}
       </p>
     </div>
   );
 };
 
+// What a hand-written page stores: how loading `id` went on `attempt`
+type IssueLoad = {
+  id: string;
+  attempt: number;
+  data?: Issue;
+  error: Error | null;
+};
+
+// Pending until the load for the current id and attempt has come back
+const toIssueState = (
+  load: IssueLoad | null,
+  id: string,
+  attempt: number,
+  { keepPreviousData = false } = {}
+): AsyncState<Issue> => {
+  if (!load || load.id !== id || load.attempt !== attempt) {
+    return {
+      status: "pending",
+      data: keepPreviousData ? load?.data : undefined,
+      error: null,
+    };
+  }
+  return load.error
+    ? { status: "error", data: undefined, error: load.error }
+    : { status: "success", data: load.data, error: null };
+};
+
+// ===========================================
+// SOLUTION 1: Compare result with current ID (using Ref)
+// ===========================================
+
+const PageWithRefComparison = ({ id }: { id: string }) => {
+  const fetchIssue = useIssueFetcher();
+  const [attempt, setAttempt] = useState(0);
+  const [load, setLoad] = useState<IssueLoad | null>(null);
+  const currentIdRef = useRef(id);
+
+  useEffect(() => {
+    // Update ref with latest id
+    currentIdRef.current = id;
+
+    fetchIssue(id).then(
+      (result) => {
+        // ✅ Only update if result matches current id
+        if (currentIdRef.current === toTabId(result)) {
+          setLoad({ id, attempt, data: result, error: null });
+        }
+      },
+      (error: Error) => {
+        // A failure carries no id, compare the one it was requested for
+        if (currentIdRef.current === id) {
+          setLoad({ id, attempt, error });
+        }
+      }
+    );
+  }, [id, attempt, fetchIssue]);
+
+  const issue = {
+    ...toIssueState(load, id, attempt),
+    reload: () => setAttempt((current) => current + 1),
+  };
+
+  return <IssueResult id={id} issue={issue} tone="emerald" />;
+};
+
 // ===========================================
 // SOLUTION 2: Cleanup function with isActive flag
 // ===========================================
 
+// Keeps the last issue on screen, dimmed, while the next one loads
 const PageWithCleanup = ({ id }: { id: string }) => {
-  const [data, setData] = useState<typeof issuesData["1"] | null>(null);
-  const [loading, setLoading] = useState(true);
+  const fetchIssue = useIssueFetcher();
+  const [attempt, setAttempt] = useState(0);
+  const [load, setLoad] = useState<IssueLoad | null>(null);
 
   useEffect(() => {
     // ✅ Track if this effect is still "active"
     let isActive = true;
-    setLoading(true);
 
-    simulateFetch(id).then((result) => {
-      // ✅ Only update if this effect run is still active
-      if (isActive) {
-        setData(result);
-        setLoading(false);
+    fetchIssue(id).then(
+      (result) => {
+        // ✅ Only update if this effect run is still active
+        if (isActive) {
+          setLoad({ id, attempt, data: result, error: null });
+        }
+      },
+      (error: Error) => {
+        if (isActive) {
+          setLoad({ id, attempt, error });
+        }
       }
-    });
+    );
 
     // ✅ Cleanup: mark as inactive before next effect run
     return () => {
       isActive = false;
     };
-  }, [id]);
+  }, [id, attempt, fetchIssue]);
 
-  if (loading) {
-    return (
-      <div className="rounded-lg border border-dashed border-blue-400 bg-blue-50 p-4 dark:border-blue-600 dark:bg-blue-900/20">
-        <div className="flex items-center gap-2">
-          <div className="h-4 w-4 animate-spin rounded-full border-2 border-blue-500 border-t-transparent" />
-          <span className="text-sm text-blue-600 dark:text-blue-400">
-            Loading Issue {id}...
-          </span>
-        </div>
-      </div>
-    );
-  }
+  const issue = {
+    ...toIssueState(load, id, attempt, { keepPreviousData: true }),
+    reload: () => setAttempt((current) => current + 1),
+  };
 
-  return (
-    <div className="rounded-lg border border-blue-300 bg-white p-4 dark:border-blue-700 dark:bg-zinc-800">
-      <span className="rounded bg-blue-100 px-2 py-0.5 text-xs font-medium text-blue-700 dark:bg-blue-900 dark:text-blue-300">
-        {data?.id}
-      </span>
-      <h3 className="mt-2 font-semibold">{data?.title}</h3>
-      <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
-        {data?.description}
-      </p>
-    </div>
-  );
+  return <IssueResult id={id} issue={issue} tone="blue" />;
 };
 
 // ===========================================
 // SOLUTION 3: AbortController (cancel previous requests)
 // ===========================================
 
+// ✅ Passing the signal on cancels the old request itself, not just its result
 const PageWithAbort = ({ id }: { id: string }) => {
-  const [data, setData] = useState<typeof issuesData["1"] | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    // ✅ Create AbortController for this effect run
-    const controller = new AbortController();
-    setLoading(true);
-
-    simulateFetch(id, controller.signal)
-      .then((result) => {
-        setData(result);
-        setLoading(false);
-      })
-      .catch((error) => {
-        // ✅ Ignore abort errors
-        if (error.name !== "AbortError") {
-          console.error("Fetch error:", error);
-        }
-      });
-
-    // ✅ Cleanup: abort the request
-    return () => {
-      controller.abort();
-    };
-  }, [id]);
-
-  if (loading) {
-    return (
-      <div className="rounded-lg border border-dashed border-purple-400 bg-purple-50 p-4 dark:border-purple-600 dark:bg-purple-900/20">
-        <div className="flex items-center gap-2">
-          <div className="h-4 w-4 animate-spin rounded-full border-2 border-purple-500 border-t-transparent" />
-          <span className="text-sm text-purple-600 dark:text-purple-400">
-            Loading Issue {id}...
-          </span>
-        </div>
-      </div>
-    );
-  }
+  // #region page-with-abort-fetching
+  const fetchIssue = useIssueFetcher();
+  const issue = useAsync((signal) => fetchIssue(id, signal), [id, fetchIssue]);
+  // #endregion
 
-  return (
-    <div className="rounded-lg border border-purple-300 bg-white p-4 dark:border-purple-700 dark:bg-zinc-800">
-      <span className="rounded bg-purple-100 px-2 py-0.5 text-xs font-medium text-purple-700 dark:bg-purple-900 dark:text-purple-300">
-        {data?.id}
-      </span>
-      <h3 className="mt-2 font-semibold">{data?.title}</h3>
-      <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
-        {data?.description}
-      </p>
-    </div>
-  );
+  return <IssueResult id={id} issue={issue} tone="purple" />;
 };
 
 // ===========================================
@@ -209,8 +304,21 @@ const PageWithAbort = ({ id }: { id: string }) => {
 
 type Solution = "ref" | "cleanup" | "abort";
 
+// Section anchors of each solution, linking to one opens its demo
+const solutionAnchors: Record<Solution, string> = {
+  ref: "page-with-ref-comparison",
+  cleanup: "page-with-cleanup",
+  abort: "page-with-abort",
+};
+
+const getSolutionFromHash = (hash: string) =>
+  (Object.keys(solutionAnchors) as Solution[]).find(
+    (solution) => solutionAnchors[solution] === hash
+  ) ?? null;
+
 const DemoApp = ({ solution }: { solution: Solution }) => {
   const [page, setPage] = useState("1");
+  const race = useRaceTimeline();
 
   const PageComponent =
     solution === "ref"
@@ -225,7 +333,10 @@ const DemoApp = ({ solution }: { solution: Solution }) => {
         {["1", "2", "3"].map((id) => (
           <button
             key={id}
-            onClick={() => setPage(id)}
+            onClick={() => {
+              setPage(id);
+              race.select(id);
+            }}
             className={`rounded-lg px-4 py-2 text-sm font-medium transition-colors ${
               page === id
                 ? solution === "ref"
@@ -251,12 +362,334 @@ const DemoApp = ({ solution }: { solution: Solution }) => {
   );
 };
 
+// ===========================================
+// PREFETCH ON INTENT
+// ===========================================
+
+const PREFETCH_STALE_TIME = 10000;
+
+const issueQueryKey = (id: string) => `chapter-14/issue/${id}`;
+
+// performance.now() marks for the latest fetch and render of one issue
+type IssueTiming = {
+  fetchStart: number | null;
+  fetchEnd: number | null;
+  renderStart: number | null;
+};
+
+const EMPTY_TIMING: IssueTiming = {
+  fetchStart: null,
+  fetchEnd: null,
+  renderStart: null,
+};
+
+// Reset bumps the generation, so requests still in flight from before it
+// can't write into the cleared timeline
+type PrefetchLog = {
+  generation: number;
+  timings: Record<string, IssueTiming>;
+};
+
+type IssueFetcher = (id: string) => Promise<typeof issuesData["1"]>;
+
+const PrefetchTab = ({
+  id,
+  active,
+  prefetchEnabled,
+  onOpen,
+  onPrefetch,
+}: {
+  id: string;
+  active: boolean;
+  prefetchEnabled: boolean;
+  onOpen: (id: string) => void;
+  onPrefetch: (id: string) => void;
+}) => {
+  const intentHandlers = usePrefetchIntent(() => onPrefetch(id));
+
+  return (
+    <button
+      {...(prefetchEnabled ? intentHandlers : {})}
+      onClick={() => onOpen(id)}
+      className={`rounded-lg px-4 py-2 text-sm font-medium transition-colors ${
+        active
+          ? "bg-cyan-500 text-white"
+          : "bg-zinc-200 text-zinc-700 hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-300"
+      }`}
+      type="button"
+    >
+      Issue {id}
+    </button>
+  );
+};
+
+// Keyed by id in the cache, so a slow response can never show under another tab
+const PrefetchedIssue = ({
+  id,
+  cache,
+  fetchIssue,
+  onRenderStart,
+}: {
+  id: string;
+  cache: QueryCache;
+  fetchIssue: IssueFetcher;
+  onRenderStart: (id: string) => void;
+}) => {
+  const { data, error, status, refetch } = useQuery(
+    issueQueryKey(id),
+    () => fetchIssue(id),
+    { cache, staleTime: PREFETCH_STALE_TIME }
+  );
+
+  // First commit for this issue, before the browser paints it
+  useLayoutEffect(() => {
+    onRenderStart(id);
+  }, [id, onRenderStart]);
+
+  if (status === "error" && !data) {
+    return (
+      <div
+        role="alert"
+        className="rounded-lg border border-red-300 bg-red-50 p-4 dark:border-red-700 dark:bg-red-900/20"
+      >
+        <p className="text-sm text-red-600 dark:text-red-400">
+          Issue {id} failed to load: {error?.message}
+        </p>
+        <button
+          onClick={refetch}
+          className="mt-2 rounded bg-red-500 px-3 py-1 text-sm text-white hover:bg-red-600"
+          type="button"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="rounded-lg border border-dashed border-cyan-400 bg-cyan-50 p-4 dark:border-cyan-600 dark:bg-cyan-900/20">
+        <div className="flex items-center gap-2">
+          <div className="h-4 w-4 animate-spin rounded-full border-2 border-cyan-500 border-t-transparent" />
+          <span className="text-sm text-cyan-600 dark:text-cyan-400">
+            Loading issue {id}...
+          </span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-700 dark:bg-zinc-800">
+      <span className="rounded bg-cyan-100 px-2 py-0.5 text-xs font-medium text-cyan-700 dark:bg-cyan-900 dark:text-cyan-300">
+        {data.id}
+      </span>
+      <h3 className="mt-2 text-lg font-semibold">{data.title}</h3>
+      <p className="text-sm text-zinc-600 dark:text-zinc-400">
+        {data.description}
+      </p>
+    </div>
+  );
+};
+
+const describeTiming = ({ fetchStart, fetchEnd, renderStart }: IssueTiming) => {
+  if (fetchStart === null || renderStart === null) {
+    return "prefetched, not opened yet";
+  }
+  if (fetchEnd !== null && fetchEnd <= renderStart) {
+    return "data ready before render - no spinner";
+  }
+  const lead = Math.round(renderStart - fetchStart);
+  return lead > 0
+    ? `fetch started ${lead}ms before render`
+    : "fetch started on render";
+};
+
+const PrefetchTimeline = ({
+  timings,
+}: {
+  timings: Record<string, IssueTiming>;
+}) => {
+  const rows = Object.entries(timings);
+  const marks = rows.flatMap(([, timing]) =>
+    Object.values(timing).filter((mark): mark is number => mark !== null)
+  );
+
+  if (marks.length === 0) {
+    return (
+      <p className="text-xs text-zinc-500">
+        Hover or open a tab to see when its fetch starts.
+      </p>
+    );
+  }
+
+  const origin = Math.min(...marks);
+  const span = Math.max(Math.max(...marks) - origin, 1);
+  const toPercent = (mark: number) => `${((mark - origin) / span) * 100}%`;
+
+  return (
+    <div className="space-y-2">
+      {rows.map(([id, timing]) => (
+        <div key={id}>
+          <div className="flex justify-between text-xs text-zinc-500">
+            <span>Issue {id}</span>
+            <span>{describeTiming(timing)}</span>
+          </div>
+          <div className="relative h-3 rounded bg-zinc-100 dark:bg-zinc-800">
+            {timing.fetchStart !== null && (
+              <div
+                className={`absolute inset-y-0 min-w-0.5 rounded bg-cyan-400 ${
+                  timing.fetchEnd === null ? "right-0 animate-pulse" : ""
+                }`}
+                style={{
+                  left: toPercent(timing.fetchStart),
+                  width:
+                    timing.fetchEnd === null
+                      ? undefined
+                      : `calc(${toPercent(timing.fetchEnd)} - ${toPercent(timing.fetchStart)})`,
+                }}
+              />
+            )}
+            {timing.renderStart !== null && (
+              <div
+                className="absolute -inset-y-0.5 w-0.5 bg-red-500"
+                style={{ left: toPercent(timing.renderStart) }}
+                title="Render start"
+              />
+            )}
+          </div>
+        </div>
+      ))}
+      <p className="text-xs text-zinc-500">
+        <span className="text-cyan-500">■</span> fetch{" "}
+        <span className="text-red-500">|</span> render start (issue view committed)
+      </p>
+    </div>
+  );
+};
+
+const PrefetchDemo = () => {
+  const [cache] = useState(createQueryCache);
+  const [page, setPage] = useState<string | null>(null);
+  const [prefetchEnabled, setPrefetchEnabled] = useState(true);
+  const [{ generation, timings }, setLog] = useState<PrefetchLog>({
+    generation: 0,
+    timings: {},
+  });
+
+  const updateTiming = useCallback(
+    (fromGeneration: number, id: string, patch: Partial<IssueTiming>) =>
+      setLog((current) =>
+        current.generation !== fromGeneration
+          ? current
+          : {
+              ...current,
+              timings: {
+                ...current.timings,
+                [id]: { ...(current.timings[id] ?? EMPTY_TIMING), ...patch },
+              },
+            }
+      ),
+    []
+  );
+
+  const fetchIssue = (id: string) => {
+    const fromGeneration = generation;
+    updateTiming(fromGeneration, id, {
+      fetchStart: performance.now(),
+      fetchEnd: null,
+    });
+    return simulateFetch(id).finally(() =>
+      updateTiming(fromGeneration, id, { fetchEnd: performance.now() })
+    );
+  };
+
+  const prefetchIssue = (id: string) =>
+    cache.prefetch(issueQueryKey(id), () => fetchIssue(id), {
+      staleTime: PREFETCH_STALE_TIME,
+    });
+
+  // Stable per generation, so the issue view only reports a new id
+  const markRenderStart = useCallback(
+    (id: string) =>
+      updateTiming(generation, id, { renderStart: performance.now() }),
+    [generation, updateTiming]
+  );
+
+  const reset = () => {
+    setPage(null);
+    setLog((current) => ({ generation: current.generation + 1, timings: {} }));
+    cache.clear();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {["1", "2", "3"].map((id) => (
+          <PrefetchTab
+            key={id}
+            id={id}
+            active={page === id}
+            prefetchEnabled={prefetchEnabled}
+            onOpen={setPage}
+            onPrefetch={prefetchIssue}
+          />
+        ))}
+        <label className="ml-auto flex items-center gap-1.5 text-sm">
+          <input
+            type="checkbox"
+            checked={prefetchEnabled}
+            onChange={(e) => setPrefetchEnabled(e.target.checked)}
+          />
+          Prefetch on hover
+        </label>
+        <button
+          onClick={reset}
+          className="rounded-lg bg-zinc-200 px-3 py-2 text-sm text-zinc-600 dark:bg-zinc-700 dark:text-zinc-400"
+          type="button"
+        >
+          Reset
+        </button>
+      </div>
+
+      {page ? (
+        <PrefetchedIssue
+          id={page}
+          cache={cache}
+          fetchIssue={fetchIssue}
+          onRenderStart={markRenderStart}
+        />
+      ) : (
+        <div className="rounded-lg border border-dashed border-zinc-300 p-4 text-center text-sm text-zinc-400 dark:border-zinc-700">
+          Hover a tab for a moment, then click it
+        </div>
+      )}
+
+      <PrefetchTimeline timings={timings} />
+    </div>
+  );
+};
+
+// The two sides of "From Page to PageWithAbort", straight from the demos
+const pageFetching = getSnippet("components/chapter-14/index.tsx#page-fetching");
+const pageWithAbortFetching = getSnippet(
+  "components/chapter-14/optimised.tsx#page-with-abort-fetching"
+);
+
 // ===========================================
 // MAIN COMPONENT
 // ===========================================
 
 const ChapterFourteenOptimised = () => {
-  const [activeSolution, setActiveSolution] = useState<Solution | null>(null);
+  const hash = useLocationHash();
+  // undefined = nothing picked yet, fall back to the solution linked in the URL
+  const [selectedSolution, setActiveSolution] = useState<
+    Solution | null | undefined
+  >(undefined);
+  const activeSolution =
+    selectedSolution === undefined
+      ? getSolutionFromHash(hash)
+      : selectedSolution;
 
   return (
     <div className="layout mx-auto max-w-2xl p-8">
@@ -273,6 +706,11 @@ const ChapterFourteenOptimised = () => {
         </div>
       </div>
 
+      <MockApiSettingsPanel
+        paths={["issues/1", "issues/2", "issues/3"]}
+        presets={[RACE_CONDITION_PRESET]}
+      />
+
       {/* Solution buttons */}
       <div className="mb-6 flex flex-wrap gap-2">
         <button
@@ -322,7 +760,11 @@ const ChapterFourteenOptimised = () => {
       {/* Demo */}
       {activeSolution ? (
         <div className="mb-6">
-          <DemoApp key={activeSolution + Date.now()} solution={activeSolution} />
+          <RequestLogProvider key={activeSolution}>
+            <RaceTimelineProvider initialId="1">
+              <DemoApp solution={activeSolution} />
+            </RaceTimelineProvider>
+          </RequestLogProvider>
         </div>
       ) : (
         <div className="mb-6 rounded-lg border border-dashed border-zinc-300 p-8 text-center text-zinc-400 dark:border-zinc-700">
@@ -334,8 +776,9 @@ const ChapterFourteenOptimised = () => {
       <div className="space-y-4">
         {/* Solution 1 */}
         <div className="rounded-lg border border-emerald-200 bg-emerald-50 p-4 dark:border-emerald-800 dark:bg-emerald-900/20">
-          <h3 className="mb-2 font-semibold text-emerald-700 dark:text-emerald-400">
+          <h3 id="page-with-ref-comparison" className="scroll-mt-8 mb-2 font-semibold text-emerald-700 dark:text-emerald-400">
             Solution 1: Compare with Ref
+            <SectionLink id="page-with-ref-comparison" />
           </h3>
           <pre className="overflow-x-auto text-xs text-emerald-600 dark:text-emerald-500">
 {`const currentIdRef = useRef(id);
@@ -355,8 +798,9 @@ useEffect(() => {
 
         {/* Solution 2 */}
         <div className="rounded-lg border border-blue-200 bg-blue-50 p-4 dark:border-blue-800 dark:bg-blue-900/20">
-          <h3 className="mb-2 font-semibold text-blue-700 dark:text-blue-400">
+          <h3 id="page-with-cleanup" className="scroll-mt-8 mb-2 font-semibold text-blue-700 dark:text-blue-400">
             Solution 2: Cleanup Flag
+            <SectionLink id="page-with-cleanup" />
           </h3>
           <pre className="overflow-x-auto text-xs text-blue-600 dark:text-blue-500">
 {`useEffect(() => {
@@ -377,8 +821,9 @@ useEffect(() => {
 
         {/* Solution 3 */}
         <div className="rounded-lg border border-purple-200 bg-purple-50 p-4 dark:border-purple-800 dark:bg-purple-900/20">
-          <h3 className="mb-2 font-semibold text-purple-700 dark:text-purple-400">
+          <h3 id="page-with-abort" className="scroll-mt-8 mb-2 font-semibold text-purple-700 dark:text-purple-400">
             Solution 3: AbortController
+            <SectionLink id="page-with-abort" />
           </h3>
           <pre className="overflow-x-auto text-xs text-purple-600 dark:text-purple-500">
 {`useEffect(() => {
@@ -399,6 +844,24 @@ useEffect(() => {
         </div>
       </div>
 
+      {/* Page vs PageWithAbort */}
+      <div className="mt-6">
+        <h3 id="page-vs-page-with-abort" className="scroll-mt-8 mb-3 font-semibold">
+          From Page to PageWithAbort
+          <SectionLink id="page-vs-page-with-abort" />
+        </h3>
+        <p className="mb-3 text-sm text-zinc-600 dark:text-zinc-400">
+          The state, the effect and its missing cleanup collapse into one{" "}
+          <code>useAsync</code> call that hands the signal to the fetch.
+        </p>
+        <CodeDiff
+          beforeFileName={pageFetching.fileName}
+          afterFileName={pageWithAbortFetching.fileName}
+          before={pageFetching.code}
+          after={pageWithAbortFetching.code}
+        />
+      </div>
+
       {/* Comparison */}
       <div className="mt-6 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
         <h3 className="mb-3 font-semibold">Which Solution to Use?</h3>
@@ -427,10 +890,29 @@ useEffect(() => {
         </div>
       </div>
 
+      {/* useAsync */}
+      <div className="mt-4 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
+        <h3 id="use-async" className="scroll-mt-8 mb-2 font-semibold">
+          All Three in One Hook: useAsync
+          <SectionLink id="use-async" />
+        </h3>
+        <p className="mb-3 text-sm text-zinc-600 dark:text-zinc-400">
+          Solution 3 is written with it: <code>useAsync</code> aborts the
+          previous run like the AbortController does, and ignores its result
+          even when the fetch ignores the signal, like the isActive flag. The
+          loading, error and retry state comes with it.
+        </p>
+        <CodeBlock
+          {...getSnippet("hooks/use-async.ts#use-async")}
+          maxLines={20}
+        />
+      </div>
+
       {/* Bonus: Force remount */}
       <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 p-4 dark:border-amber-800 dark:bg-amber-900/20">
-        <h3 className="mb-2 font-semibold text-amber-700 dark:text-amber-400">
+        <h3 id="force-remount-with-key" className="scroll-mt-8 mb-2 font-semibold text-amber-700 dark:text-amber-400">
           💡 Bonus: Force Re-mount with Key
+          <SectionLink id="force-remount-with-key" />
         </h3>
         <p className="mb-2 text-sm text-amber-600 dark:text-amber-500">
           Adding a key forces React to unmount/remount, killing stale fetches:
@@ -444,6 +926,31 @@ useEffect(() => {
           solutions instead.
         </p>
       </div>
+
+      {/* Prefetch on intent */}
+      <div className="mt-4 rounded-lg border border-cyan-200 bg-cyan-50 p-4 dark:border-cyan-800 dark:bg-cyan-900/20">
+        <h3 id="prefetch-on-intent" className="scroll-mt-8 mb-2 font-semibold text-cyan-700 dark:text-cyan-400">
+          Prefetch on Intent
+          <SectionLink id="prefetch-on-intent" />
+        </h3>
+        <p className="mb-3 text-sm text-cyan-600 dark:text-cyan-500">
+          A fetch in <code>useEffect</code> can only start after the page
+          renders. Hovering a tab is a strong hint it&apos;s about to be opened,
+          so start the request there: by the time the click renders the page,
+          the data is in flight or already cached.
+        </p>
+        <PrefetchDemo />
+        <pre className="mt-4 overflow-x-auto text-xs text-cyan-600 dark:text-cyan-500">
+{`// Route-level preloading: start on intent, before the route renders
+<Link
+  href={\`/issues/\${id}\`}
+  onMouseEnter={() => prefetch(\`issue/\${id}\`, () => fetchIssue(id))}
+/>
+
+// The page reads the same key: joins the request or hits the cache
+const { data } = useQuery(\`issue/\${id}\`, () => fetchIssue(id));`}
+        </pre>
+      </div>
     </div>
   );
 };
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import SectionLink from "@/components/section-link";
 
 // ===========================================
 // COMPONENT THAT THROWS ERRORS
@@ -54,8 +55,9 @@ const TryCatchChildrenDemo = () => {
 
   return (
     <div className="rounded-lg border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-900/20">
-      <h3 className="mb-3 font-semibold text-red-700 dark:text-red-400">
+      <h3 id="try-catch-children" className="scroll-mt-8 mb-3 font-semibold text-red-700 dark:text-red-400">
         ❌ try/catch can&apos;t catch children errors
+        <SectionLink id="try-catch-children" />
       </h3>
       <p className="mb-3 text-sm text-red-600 dark:text-red-500">
         Click increment until count = 3. The error will crash the entire app!
@@ -106,8 +108,9 @@ const TryCatchEffectDemo = () => {
 
   return (
     <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 dark:border-amber-800 dark:bg-amber-900/20">
-      <h3 className="mb-3 font-semibold text-amber-700 dark:text-amber-400">
+      <h3 id="try-catch-use-effect" className="scroll-mt-8 mb-3 font-semibold text-amber-700 dark:text-amber-400">
         ❌ try/catch can&apos;t wrap useEffect
+        <SectionLink id="try-catch-use-effect" />
       </h3>
       {error && <p className="text-red-500">Error: {error}</p>}
       <pre className="overflow-x-auto text-xs text-amber-600 dark:text-amber-500">
@@ -168,8 +171,9 @@ const AsyncErrorDemo = () => {
 
   return (
     <div className="rounded-lg border border-purple-200 bg-purple-50 p-4 dark:border-purple-800 dark:bg-purple-900/20">
-      <h3 className="mb-3 font-semibold text-purple-700 dark:text-purple-400">
+      <h3 id="async-errors-escape" className="scroll-mt-8 mb-3 font-semibold text-purple-700 dark:text-purple-400">
         ❌ Async errors escape outer try/catch
+        <SectionLink id="async-errors-escape" />
       </h3>
       <div className="mb-3 flex gap-2">
         <button
@@ -233,8 +237,9 @@ const EventHandlerDemo = () => {
 
   return (
     <div className="rounded-lg border border-blue-200 bg-blue-50 p-4 dark:border-blue-800 dark:bg-blue-900/20">
-      <h3 className="mb-3 font-semibold text-blue-700 dark:text-blue-400">
+      <h3 id="event-handlers-try-catch" className="scroll-mt-8 mb-3 font-semibold text-blue-700 dark:text-blue-400">
         ❌ Event handlers need internal try/catch
+        <SectionLink id="event-handlers-try-catch" />
       </h3>
       <div className="mb-3 flex gap-2">
         <button
@@ -298,8 +303,9 @@ const ChapterFifteen = () => {
       <div className="space-y-6">
         {/* Demo toggle */}
         <div className="rounded-lg border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-900/20">
-          <h3 className="mb-2 font-semibold text-red-700 dark:text-red-400">
+          <h3 id="crash-demo" className="scroll-mt-8 mb-2 font-semibold text-red-700 dark:text-red-400">
             ⚠️ Crash Demo (will break the page!)
+            <SectionLink id="crash-demo" />
           </h3>
           <p className="mb-3 text-sm text-red-600 dark:text-red-500">
             This demo will actually crash. You&apos;ll need to refresh the page.
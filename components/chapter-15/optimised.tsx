@@ -1,98 +1,14 @@
 "use client";
 
-import { useState, useCallback, Component, ReactNode } from "react";
-
-// ===========================================
-// ERROR BOUNDARY COMPONENT
-// ===========================================
-
-type ErrorBoundaryProps = {
-  children: ReactNode;
-  fallback?: ReactNode;
-  onError?: (error: Error, errorInfo: React.ErrorInfo) => void;
-};
-
-type ErrorBoundaryState = {
-  hasError: boolean;
-  error: Error | null;
-};
-
-class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
-  constructor(props: ErrorBoundaryProps) {
-    super(props);
-    this.state = { hasError: false, error: null };
-  }
-
-  static getDerivedStateFromError(error: Error): ErrorBoundaryState {
-    return { hasError: true, error };
-  }
-
-  componentDidCatch(error: Error, errorInfo: React.ErrorInfo) {
-    console.error("ErrorBoundary caught:", error, errorInfo);
-    this.props.onError?.(error, errorInfo);
-  }
-
-  render() {
-    if (this.state.hasError) {
-      return (
-        this.props.fallback || (
-          <div className="rounded-lg border border-red-300 bg-red-50 p-4 dark:border-red-700 dark:bg-red-900/20">
-            <h3 className="font-semibold text-red-700 dark:text-red-400">
-              Something went wrong
-            </h3>
-            <p className="mt-1 text-sm text-red-600 dark:text-red-500">
-              {this.state.error?.message}
-            </p>
-            <button
-              onClick={() => this.setState({ hasError: false, error: null })}
-              className="mt-3 rounded bg-red-500 px-3 py-1 text-sm text-white hover:bg-red-600"
-              type="button"
-            >
-              Try Again
-            </button>
-          </div>
-        )
-      );
-    }
-
-    return this.props.children;
-  }
-}
-
-// ===========================================
-// HOOK: Throw async errors into React lifecycle
-// ===========================================
-
-const useThrowAsyncError = () => {
-  const [, setState] = useState();
-
-  return useCallback((error: Error) => {
-    setState(() => {
-      throw error;
-    });
-  }, []);
-};
-
-// ===========================================
-// HOOK: Wrap callbacks with error handling
-// ===========================================
-
-const useCallbackWithErrorHandling = <T extends (...args: never[]) => void>(
-  callback: T
-) => {
-  const throwAsyncError = useThrowAsyncError();
-
-  return useCallback(
-    (...args: Parameters<T>) => {
-      try {
-        callback(...args);
-      } catch (e) {
-        throwAsyncError(e as Error);
-      }
-    },
-    [callback, throwAsyncError]
-  ) as T;
-};
+import { useState } from "react";
+import { ErrorBoundary } from "@/components/error-boundary";
+import SectionLink from "@/components/section-link";
+import { CodeBlock } from "@/components/ui/code-block";
+import {
+  useErrorBoundary,
+  useErrorBoundaryCallback,
+} from "@/hooks/use-error-boundary";
+import { getSnippet } from "@/lib/snippets";
 
 // ===========================================
 // DEMO COMPONENTS
@@ -124,33 +40,31 @@ const BuggyCounter = () => {
 
 // Demo 1: Basic ErrorBoundary
 const BasicErrorBoundaryDemo = () => {
-  const [key, setKey] = useState(0);
-
   return (
     <div className="rounded-lg border border-emerald-200 bg-emerald-50 p-4 dark:border-emerald-800 dark:bg-emerald-900/20">
-      <h3 className="mb-3 font-semibold text-emerald-700 dark:text-emerald-400">
+      <h3 id="basic-error-boundary" className="scroll-mt-8 mb-3 font-semibold text-emerald-700 dark:text-emerald-400">
         ✅ ErrorBoundary catches render errors
+        <SectionLink id="basic-error-boundary" />
       </h3>
       <p className="mb-3 text-sm text-emerald-600 dark:text-emerald-500">
         Click increment until count = 3. Error is caught, not the whole app!
       </p>
 
       <ErrorBoundary
-        key={key}
-        fallback={
+        fallbackRender={({ resetErrorBoundary }) => (
           <div className="rounded bg-red-100 p-3 dark:bg-red-900/30">
             <p className="text-red-600 dark:text-red-400">
               💥 Counter crashed! But the app is fine.
             </p>
             <button
-              onClick={() => setKey((k) => k + 1)}
+              onClick={resetErrorBoundary}
               className="mt-2 rounded bg-emerald-500 px-3 py-1 text-sm text-white"
               type="button"
             >
               Reset Counter
             </button>
           </div>
-        }
+        )}
       >
         <BuggyCounter />
       </ErrorBoundary>
@@ -160,15 +74,22 @@ const BasicErrorBoundaryDemo = () => {
 
 // Demo 2: Async error handling with hook
 const AsyncErrorDemo = () => {
-  const throwAsyncError = useThrowAsyncError();
+  const { showBoundary } = useErrorBoundary();
   const [isLoading, setIsLoading] = useState(false);
 
-  const handleFetchError = () => {
+  // ✅ Rejected promise from an async handler goes to the boundary
+  const handleFetchError = useErrorBoundaryCallback(async () => {
     setIsLoading(true);
     // Simulate failed fetch
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    throw new Error("Fetch failed! (caught by ErrorBoundary)");
+  });
+
+  // ✅ Errors in timers can be handed over explicitly
+  const handleTimerError = () => {
+    setIsLoading(true);
     setTimeout(() => {
-      setIsLoading(false);
-      throwAsyncError(new Error("Fetch failed! (caught by ErrorBoundary)"));
+      showBoundary(new Error("Timer failed! (caught by ErrorBoundary)"));
     }, 500);
   };
 
@@ -177,63 +98,86 @@ const AsyncErrorDemo = () => {
       <p className="mb-2 text-sm">
         Click to simulate a failed async operation:
       </p>
-      <button
-        onClick={handleFetchError}
-        disabled={isLoading}
-        className="rounded bg-purple-500 px-3 py-1 text-sm text-white hover:bg-purple-600 disabled:opacity-50"
-        type="button"
-      >
-        {isLoading ? "Loading..." : "Trigger Async Error"}
-      </button>
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleFetchError}
+          disabled={isLoading}
+          className="rounded bg-purple-500 px-3 py-1 text-sm text-white hover:bg-purple-600 disabled:opacity-50"
+          type="button"
+        >
+          {isLoading ? "Loading..." : "Trigger Async Error"}
+        </button>
+        <button
+          onClick={handleTimerError}
+          disabled={isLoading}
+          className="rounded bg-purple-500 px-3 py-1 text-sm text-white hover:bg-purple-600 disabled:opacity-50"
+          type="button"
+        >
+          {isLoading ? "Loading..." : "Trigger Timer Error"}
+        </button>
+      </div>
     </div>
   );
 };
 
 // Demo 3: Event handler error handling
 const EventHandlerDemo = () => {
-  const handleDangerousClick = useCallbackWithErrorHandling(() => {
+  const handleDangerousClick = useErrorBoundaryCallback(() => {
     throw new Error("Button click error! (caught by ErrorBoundary)");
   });
 
+  const handleAsyncClick = useErrorBoundaryCallback(async () => {
+    await Promise.resolve();
+    throw new Error("Async click handler rejected! (caught by ErrorBoundary)");
+  });
+
   return (
     <div className="rounded bg-white p-3 dark:bg-zinc-800">
       <p className="mb-2 text-sm">Click to throw error in event handler:</p>
-      <button
-        onClick={handleDangerousClick}
-        className="rounded bg-amber-500 px-3 py-1 text-sm text-white hover:bg-amber-600"
-        type="button"
-      >
-        Trigger Event Handler Error
-      </button>
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleDangerousClick}
+          className="rounded bg-amber-500 px-3 py-1 text-sm text-white hover:bg-amber-600"
+          type="button"
+        >
+          Trigger Event Handler Error
+        </button>
+        <button
+          onClick={handleAsyncClick}
+          className="rounded bg-amber-500 px-3 py-1 text-sm text-white hover:bg-amber-600"
+          type="button"
+        >
+          Trigger Async Handler Error
+        </button>
+      </div>
     </div>
   );
 };
 
 // Wrapped demos with their own ErrorBoundaries
 const AsyncErrorDemoWithBoundary = () => {
-  const [key, setKey] = useState(0);
-
   return (
     <div className="rounded-lg border border-purple-200 bg-purple-50 p-4 dark:border-purple-800 dark:bg-purple-900/20">
-      <h3 className="mb-3 font-semibold text-purple-700 dark:text-purple-400">
-        ✅ Catching async errors with useThrowAsyncError
+      <h3 id="async-error-boundary" className="scroll-mt-8 mb-3 font-semibold text-purple-700 dark:text-purple-400">
+        ✅ Catching async errors with useErrorBoundary
+        <SectionLink id="async-error-boundary" />
       </h3>
       <ErrorBoundary
-        key={key}
-        fallback={
+        fallbackRender={({ error, resetErrorBoundary }) => (
           <div className="rounded bg-red-100 p-3 dark:bg-red-900/30">
             <p className="text-red-600 dark:text-red-400">
               💥 Async error caught!
             </p>
+            <p className="mt-1 text-xs text-red-500">{error.message}</p>
             <button
-              onClick={() => setKey((k) => k + 1)}
+              onClick={resetErrorBoundary}
               className="mt-2 rounded bg-purple-500 px-3 py-1 text-sm text-white"
               type="button"
             >
               Reset
             </button>
           </div>
-        }
+        )}
       >
         <AsyncErrorDemo />
       </ErrorBoundary>
@@ -242,29 +186,28 @@ const AsyncErrorDemoWithBoundary = () => {
 };
 
 const EventHandlerDemoWithBoundary = () => {
-  const [key, setKey] = useState(0);
-
   return (
     <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 dark:border-amber-800 dark:bg-amber-900/20">
-      <h3 className="mb-3 font-semibold text-amber-700 dark:text-amber-400">
+      <h3 id="event-handler-error-boundary" className="scroll-mt-8 mb-3 font-semibold text-amber-700 dark:text-amber-400">
         ✅ Catching event handler errors
+        <SectionLink id="event-handler-error-boundary" />
       </h3>
       <ErrorBoundary
-        key={key}
-        fallback={
+        fallbackRender={({ error, resetErrorBoundary }) => (
           <div className="rounded bg-red-100 p-3 dark:bg-red-900/30">
             <p className="text-red-600 dark:text-red-400">
               💥 Event handler error caught!
             </p>
+            <p className="mt-1 text-xs text-red-500">{error.message}</p>
             <button
-              onClick={() => setKey((k) => k + 1)}
+              onClick={resetErrorBoundary}
               className="mt-2 rounded bg-amber-500 px-3 py-1 text-sm text-white"
               type="button"
             >
               Reset
             </button>
           </div>
-        }
+        )}
       >
         <EventHandlerDemo />
       </ErrorBoundary>
@@ -296,28 +239,13 @@ const ChapterFifteenOptimised = () => {
       {/* How ErrorBoundary works */}
       <div className="mb-6 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
         <h3 className="mb-2 font-semibold">How ErrorBoundary Works</h3>
-        <pre className="overflow-x-auto text-xs text-zinc-600 dark:text-zinc-400">
-{`class ErrorBoundary extends React.Component {
-  state = { hasError: false };
-
-  // Called when child throws during render
-  static getDerivedStateFromError(error) {
-    return { hasError: true };
-  }
-
-  // Called after error - good for logging
-  componentDidCatch(error, errorInfo) {
-    logErrorToService(error, errorInfo);
-  }
-
-  render() {
-    if (this.state.hasError) {
-      return <FallbackUI />;
-    }
-    return this.props.children;
-  }
-}`}
-        </pre>
+        <p className="mb-3 text-sm text-zinc-600 dark:text-zinc-400">
+          The boundary every demo below uses, straight from the shared module:
+        </p>
+        <CodeBlock
+          {...getSnippet("components/error-boundary.tsx#error-boundary")}
+          maxLines={20}
+        />
       </div>
 
       {/* Demos */}
@@ -362,24 +290,13 @@ const Component = () => {
       {/* Callback wrapper */}
       <div className="mt-4 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
         <h3 className="mb-2 font-semibold">Wrapper for Event Handlers</h3>
-        <pre className="overflow-x-auto text-xs text-zinc-600 dark:text-zinc-400">
-{`const useCallbackWithErrorHandling = (callback) => {
-  const throwAsyncError = useThrowAsyncError();
-
-  return useCallback((...args) => {
-    try {
-      callback(...args);
-    } catch (e) {
-      throwAsyncError(e);
-    }
-  }, [callback, throwAsyncError]);
-};
-
-// Usage
-const onClick = useCallbackWithErrorHandling(() => {
-  doSomethingDangerous(); // Errors caught by ErrorBoundary!
-});`}
-        </pre>
+        <p className="mb-3 text-sm text-zinc-600 dark:text-zinc-400">
+          Catches synchronous throws and rejected promises from async handlers:
+        </p>
+        <CodeBlock
+          {...getSnippet("hooks/use-error-boundary.ts#use-error-boundary-callback")}
+          language="ts"
+        />
       </div>
 
       {/* What catches what */}
@@ -444,7 +361,7 @@ const onClick = useCallbackWithErrorHandling(() => {
           <li className="flex items-start gap-2">
             <span className="text-emerald-500">✓</span>
             <span>
-              Use useThrowAsyncError for async errors you want caught
+              Use useErrorBoundary for async errors you want caught
             </span>
           </li>
         </ul>
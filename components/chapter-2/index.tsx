@@ -2,9 +2,15 @@
 
 import { useState } from "react";
 import { CodeBlock } from "@/components/ui/code-block";
+import {
+  RenderCounter,
+  useRenderCount,
+  withRenderTiming,
+} from "@/components/render-counter";
 
 // VerySlowComponent - simulates a slow rendering component
-const VerySlowComponent = () => {
+const VerySlowComponent = withRenderTiming("VerySlowComponent", () => {
+  useRenderCount("VerySlowComponent");
   // Simulate slow rendering by doing some heavy computation
   const startTime = performance.now();
   while (performance.now() - startTime < 100) {
@@ -20,12 +26,12 @@ const VerySlowComponent = () => {
         This component takes ~100ms to render. Notice how it re-renders every
         time you move your mouse because it&apos;s inside the component with state!
       </p>
-      <p className="mt-2 text-xs text-amber-600/70 dark:text-amber-400/70">
-        Rendered at: {new Date().toLocaleTimeString()}
-      </p>
+      <div className="mt-2">
+        <RenderCounter name="VerySlowComponent" />
+      </div>
     </div>
   );
-};
+});
 
 // Non-optimised: VerySlowComponent is rendered INSIDE the component with state
 // This causes it to re-render on every state change
@@ -2,9 +2,15 @@
 
 import { useState, ReactNode } from "react";
 import { CodeBlock } from "@/components/ui/code-block";
+import {
+  RenderCounter,
+  useRenderCount,
+  withRenderTiming,
+} from "@/components/render-counter";
 
 // VerySlowComponent - simulates a slow rendering component
-const VerySlowComponent = () => {
+const VerySlowComponent = withRenderTiming("VerySlowComponent", () => {
+  useRenderCount("VerySlowComponent");
   // Simulate slow rendering by doing some heavy computation
   const startTime = performance.now();
   while (performance.now() - startTime < 100) {
@@ -20,12 +26,12 @@ const VerySlowComponent = () => {
         This component takes ~100ms to render. Notice how it does NOT re-render
         when you move your mouse because it&apos;s passed as children!
       </p>
-      <p className="mt-2 text-xs text-amber-600/70 dark:text-amber-400/70">
-        Rendered at: {new Date().toLocaleTimeString()}
-      </p>
+      <div className="mt-2">
+        <RenderCounter name="VerySlowComponent" />
+      </div>
     </div>
   );
-};
+});
 
 // Optimised: MovingBlock accepts children as props
 // Children are created in a different scope, so they don't re-render
@@ -92,6 +98,7 @@ const ChapterTwoOptimised = () => {
         <div className="mt-6">
             <CodeBlock 
                 fileName="components/chapter-2/optimised.tsx"
+                maxLines={15}
                 code={`
 const MovingBlock = ({ children }) => {
   // State changes here...
@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { CodeBlock } from "@/components/ui/code-block";
 import { LoadingIcon, ErrorIcon, WarningIcon, CheckIcon } from "./icons";
+import SectionLink from "@/components/section-link";
 
 // ❌ THE PROBLEM: Button with too many configuration props
 // This approach quickly becomes unmanageable as requirements grow
@@ -141,7 +142,7 @@ const Button = ({
       {/* Examples */}
       <div className="space-y-6">
         <div className="rounded-lg border border-zinc-200 p-6 dark:border-zinc-800">
-          <h3 className="text-sm font-semibold mb-4">Button Examples:</h3>
+          <h3 id="button-examples" className="scroll-mt-8 text-sm font-semibold mb-4">Button Examples:<SectionLink id="button-examples" /></h3>
           
           <div className="space-y-4">
             {/* Loading Button */}
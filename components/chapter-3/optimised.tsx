@@ -3,6 +3,8 @@
 import { useState, ReactNode, cloneElement, isValidElement, ReactElement } from "react";
 import { LoadingIcon, ErrorIcon, WarningIcon, CheckIcon, AvatarIcon } from "./icons";
 import { CodeBlock } from "@/components/ui/code-block";
+import { CodeDiff } from "@/components/ui/code-diff";
+import SectionLink from "@/components/section-link";
 
 // ✅ THE SOLUTION: Button that accepts an element as a prop
 // The consumer has full control over the icon configuration
@@ -214,9 +216,22 @@ const ChapterThreeOptimised = () => {
         <h3 className="text-sm font-semibold text-zinc-600 dark:text-zinc-400 mb-3">
           🟢 The Clean Button API:
         </h3>
-        <CodeBlock
-            fileName="components/chapter-3/optimised.tsx"
-            code={`
+        <CodeDiff
+            beforeFileName="components/chapter-3/index.tsx"
+            afterFileName="components/chapter-3/optimised.tsx"
+            before={`
+const Button = ({
+  isLoading,
+  iconName,      // "loading" | "error" | "warning" | ...
+  iconColor,     // "white" | "black" | "red" | ...
+  iconSize,      // "small" | "medium" | "large"
+  iconPosition,  // "left" | "right"
+  // ... and it keeps growing!
+}) => { 
+  // Complex logic to figure out which icon to render...
+}
+            `}
+            after={`
 const Button = ({ icon, children }) => {
   return <button>{children} {icon}</button>;
 };
@@ -232,7 +247,7 @@ const Button = ({ icon, children }) => {
       <div className="space-y-8">
         {/* Section 1: Button with Elements as Props */}
         <section className="rounded-lg border border-zinc-200 p-6 dark:border-zinc-800">
-          <h3 className="text-sm font-semibold mb-4">1. Button with Icon Element:</h3>
+          <h3 id="button-with-icon-element" className="scroll-mt-8 text-sm font-semibold mb-4">1. Button with Icon Element:<SectionLink id="button-with-icon-element" /></h3>
           
           <div className="space-y-4">
             <div className="flex items-center gap-4">
@@ -288,7 +303,7 @@ const Button = ({ icon, children }) => {
 
         {/* Section 2: Modal Dialog with Footer Prop */}
         <section className="rounded-lg border border-zinc-200 p-6 dark:border-zinc-800">
-          <h3 className="text-sm font-semibold mb-4">2. Modal Dialog with Footer Element:</h3>
+          <h3 id="modal-with-footer-element" className="scroll-mt-8 text-sm font-semibold mb-4">2. Modal Dialog with Footer Element:<SectionLink id="modal-with-footer-element" /></h3>
           
           <button
             onClick={handleOpenDialog}
@@ -343,7 +358,7 @@ const Button = ({ icon, children }) => {
 
         {/* Section 3: Three Columns Layout */}
         <section className="rounded-lg border border-zinc-200 p-6 dark:border-zinc-800">
-          <h3 className="text-sm font-semibold mb-4">3. Three Columns Layout:</h3>
+          <h3 id="three-columns-layout" className="scroll-mt-8 text-sm font-semibold mb-4">3. Three Columns Layout:<SectionLink id="three-columns-layout" /></h3>
           
           <ThreeColumnsLayout
             leftColumn={
@@ -385,7 +400,7 @@ const Button = ({ icon, children }) => {
 
         {/* Section 4: CloneElement for Default Props */}
         <section className="rounded-lg border border-zinc-200 p-6 dark:border-zinc-800">
-          <h3 className="text-sm font-semibold mb-4">4. Default Props with cloneElement:</h3>
+          <h3 id="default-props-with-clone-element" className="scroll-mt-8 text-sm font-semibold mb-4">4. Default Props with cloneElement:<SectionLink id="default-props-with-clone-element" /></h3>
           
           <div className="space-y-4">
             <div className="flex items-center gap-4">
@@ -2,6 +2,7 @@
 
 import { useState, cloneElement, isValidElement, ReactElement } from "react";
 import { CodeBlock } from "@/components/ui/code-block";
+import SectionLink from "@/components/section-link";
 
 // Icon components
 type IconProps = {
@@ -154,7 +155,7 @@ const Button = ({ icon }) => {
       <div className="space-y-6">
         {/* Example 1: Button with cloneElement limitations */}
         <section className="rounded-lg border border-zinc-200 p-6 dark:border-zinc-800">
-          <h3 className="text-sm font-semibold mb-4">Button with cloneElement (Limited):</h3>
+          <h3 id="button-with-clone-element" className="scroll-mt-8 text-sm font-semibold mb-4">Button with cloneElement (Limited):<SectionLink id="button-with-clone-element" /></h3>
           
           <div className="space-y-4">
             <div className="flex items-center gap-4">
@@ -193,7 +194,7 @@ const Button = ({ icon }) => {
 
         {/* Example 2: What if icon library doesn't match our props? */}
         <section className="rounded-lg border border-zinc-200 p-6 dark:border-zinc-800">
-          <h3 className="text-sm font-semibold mb-4">Another Problem - Props Mismatch:</h3>
+          <h3 id="props-mismatch" className="scroll-mt-8 text-sm font-semibold mb-4">Another Problem - Props Mismatch:<SectionLink id="props-mismatch" /></h3>
           
           <CodeBlock 
             code={`
@@ -258,7 +259,7 @@ const defaultProps = {
 
         {/* ResizeDetector Problem Preview */}
         <section className="rounded-lg border border-zinc-200 p-6 dark:border-zinc-800">
-          <h3 className="text-sm font-semibold mb-4">Another Use Case - Sharing Logic:</h3>
+          <h3 id="sharing-logic" className="scroll-mt-8 text-sm font-semibold mb-4">Another Use Case - Sharing Logic:<SectionLink id="sharing-logic" /></h3>
           
           <div className="space-y-4">
             <p className="text-sm text-muted-foreground">
@@ -267,6 +268,7 @@ const defaultProps = {
             </p>
 
             <CodeBlock 
+                maxLines={15}
                 code={`
 // The ResizeDetector tracks window width
 const ResizeDetector = ({ onWidthChange }) => {
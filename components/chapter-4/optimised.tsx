@@ -2,6 +2,7 @@
 
 import { useState, useEffect, ReactNode } from "react";
 import { CodeBlock } from "@/components/ui/code-block";
+import SectionLink from "@/components/section-link";
 
 // Icon components
 type IconProps = {
@@ -260,7 +261,7 @@ const Button = ({ renderIcon }) => {
       <div className="space-y-8">
         {/* Section 1: Button with Render Props */}
         <section className="rounded-lg border border-zinc-200 p-6 dark:border-zinc-800">
-          <h3 className="text-sm font-semibold mb-4">1. Button with Render Props:</h3>
+          <h3 id="button-with-render-props" className="scroll-mt-8 text-sm font-semibold mb-4">1. Button with Render Props:<SectionLink id="button-with-render-props" /></h3>
           
           <div className="space-y-4">
             {/* Basic usage */}
@@ -359,7 +360,7 @@ const Button = ({ renderIcon }) => {
 
         {/* Section 2: Children as Render Props */}
         <section className="rounded-lg border border-zinc-200 p-6 dark:border-zinc-800">
-          <h3 className="text-sm font-semibold mb-4">2. Children as Render Props - ResizeDetector:</h3>
+          <h3 id="resize-detector" className="scroll-mt-8 text-sm font-semibold mb-4">2. Children as Render Props - ResizeDetector:<SectionLink id="resize-detector" /></h3>
           
           <CodeBlock 
             code={`
@@ -393,7 +394,7 @@ const Button = ({ renderIcon }) => {
 
         {/* Section 3: Hooks Replace Render Props (mostly) */}
         <section className="rounded-lg border border-zinc-200 p-6 dark:border-zinc-800">
-          <h3 className="text-sm font-semibold mb-4">3. Hooks Replaced This Pattern (99% of cases):</h3>
+          <h3 id="hooks-replaced-render-props" className="scroll-mt-8 text-sm font-semibold mb-4">3. Hooks Replaced This Pattern (99% of cases):<SectionLink id="hooks-replaced-render-props" /></h3>
           
           <CodeBlock 
             code={`
@@ -434,7 +435,7 @@ const Layout = () => {
 
         {/* Section 4: When Render Props Are Still Useful */}
         <section className="rounded-lg border border-zinc-200 p-6 dark:border-zinc-800">
-          <h3 className="text-sm font-semibold mb-4">4. When Render Props Are Still Useful:</h3>
+          <h3 id="render-props-still-useful" className="scroll-mt-8 text-sm font-semibold mb-4">4. When Render Props Are Still Useful:<SectionLink id="render-props-still-useful" /></h3>
           
           <p className="text-sm text-muted-foreground mb-4">
             When the logic depends on a <strong>DOM element</strong> (like tracking scroll position
@@ -2,10 +2,17 @@
 
 import React, { useState } from "react";
 import { CodeBlock } from "@/components/ui/code-block";
+import SectionLink from "@/components/section-link";
+import {
+  RenderCounter,
+  useRenderCount,
+  withRenderTiming,
+} from "@/components/render-counter";
 
 // VerySlowComponent - simulates a slow rendering component
 // We wrap it in React.memo, hoping it won't re-render
-const VerySlowComponent = React.memo(({ data, onChange }: { data: { value: number }; onChange: () => void }) => {
+const VerySlowComponent = React.memo(withRenderTiming("VerySlowComponent", function VerySlowComponent({ data, onChange }: { data: { value: number }; onChange: () => void }) {
+  useRenderCount("VerySlowComponent");
   // Simulate slow rendering by doing some heavy computation
   const startTime = performance.now();
   while (performance.now() - startTime < 100) {
@@ -23,9 +30,9 @@ const VerySlowComponent = React.memo(({ data, onChange }: { data: { value: numbe
       <p className="mt-2 text-sm text-muted-foreground">
         Data value: {data.value}
       </p>
-      <p className="mt-2 text-xs text-amber-600/70 dark:text-amber-400/70">
-        Rendered at: {new Date().toLocaleTimeString()}
-      </p>
+      <div className="mt-2">
+        <RenderCounter name="VerySlowComponent" />
+      </div>
       <button 
         onClick={onChange}
         className="mt-4 rounded bg-amber-500 px-4 py-2 text-white hover:bg-amber-600"
@@ -34,12 +41,13 @@ const VerySlowComponent = React.memo(({ data, onChange }: { data: { value: numbe
       </button>
     </div>
   );
-});
+}));
 
 VerySlowComponent.displayName = "VerySlowComponent";
 
 // New component to test children memoization
-const SlowComponentWithChildren = React.memo(({ children }: { children: React.ReactNode }) => {
+const SlowComponentWithChildren = React.memo(withRenderTiming("SlowComponentWithChildren", function SlowComponentWithChildren({ children }: { children: React.ReactNode }) {
+  useRenderCount("SlowComponentWithChildren");
   const startTime = performance.now();
   while (performance.now() - startTime < 100) {
     // Artificial delay
@@ -56,12 +64,12 @@ const SlowComponentWithChildren = React.memo(({ children }: { children: React.Re
       <div className="mt-4 rounded bg-white p-4 dark:bg-zinc-900">
         {children}
       </div>
-      <p className="mt-2 text-xs text-purple-600/70 dark:text-purple-400/70">
-        Rendered at: {new Date().toLocaleTimeString()}
-      </p>
+      <div className="mt-2">
+        <RenderCounter name="SlowComponentWithChildren" />
+      </div>
     </div>
   );
-});
+}));
 SlowComponentWithChildren.displayName = "SlowComponentWithChildren";
 
 
@@ -78,6 +86,8 @@ const ChapterFive = () => {
         <div className="mt-6">
             <CodeBlock 
                 fileName="components/chapter-5/index.tsx"
+                highlightLines="4,7,13"
+                showLineNumbers
                 code={`
 // ❌ Inline objects and functions create NEW references on every render
 <VerySlowComponent 
@@ -118,7 +128,7 @@ const ChapterFive = () => {
         </div>
 
         <div className="border-t border-zinc-200 pt-6 dark:border-zinc-800">
-            <h3 className="font-medium">Example 1: Inline Props</h3>
+            <h3 id="inline-props" className="scroll-mt-8 font-medium">Example 1: Inline Props<SectionLink id="inline-props" /></h3>
             {/* 
               This is the problem! 
               data={{ value: 1 }} creates a NEW object every render.
@@ -130,7 +140,7 @@ const ChapterFive = () => {
             />
 
             <div className="mt-8 border-t border-zinc-200 pt-6 dark:border-zinc-800">
-               <h3 className="font-medium">Example 2: Children as Props</h3>
+               <h3 id="children-as-props" className="scroll-mt-8 font-medium">Example 2: Children as Props<SectionLink id="children-as-props" /></h3>
                {/* 
                   This is also a problem!
                   The JSX <div>...</div> is syntactic sugar for React.createElement(),
@@ -2,9 +2,16 @@
 
 import React, { useState, useMemo, useCallback } from "react";
 import { CodeBlock } from "@/components/ui/code-block";
+import SectionLink from "@/components/section-link";
+import {
+  RenderCounter,
+  useRenderCount,
+  withRenderTiming,
+} from "@/components/render-counter";
 
 // VerySlowComponent - same as before
-const VerySlowComponent = React.memo(({ data, onChange }: { data: { value: number }; onChange: () => void }) => {
+const VerySlowComponent = React.memo(withRenderTiming("VerySlowComponent", function VerySlowComponent({ data, onChange }: { data: { value: number }; onChange: () => void }) {
+  useRenderCount("VerySlowComponent");
   const startTime = performance.now();
   while (performance.now() - startTime < 100) {
     // Artificial delay
@@ -21,9 +28,9 @@ const VerySlowComponent = React.memo(({ data, onChange }: { data: { value: numbe
       <p className="mt-2 text-sm text-muted-foreground">
         Data value: {data.value}
       </p>
-      <p className="mt-2 text-xs text-emerald-600/70 dark:text-emerald-400/70">
-        Rendered at: {new Date().toLocaleTimeString()}
-      </p>
+      <div className="mt-2">
+        <RenderCounter name="VerySlowComponent" />
+      </div>
       <button 
         onClick={onChange}
         className="mt-4 rounded bg-emerald-500 px-4 py-2 text-white hover:bg-emerald-600"
@@ -32,12 +39,13 @@ const VerySlowComponent = React.memo(({ data, onChange }: { data: { value: numbe
       </button>
     </div>
   );
-});
+}));
 
 VerySlowComponent.displayName = "VerySlowComponent";
 
 // SlowComponentWithChildren - same as before
-const SlowComponentWithChildren = React.memo(({ children }: { children: React.ReactNode }) => {
+const SlowComponentWithChildren = React.memo(withRenderTiming("SlowComponentWithChildren", function SlowComponentWithChildren({ children }: { children: React.ReactNode }) {
+  useRenderCount("SlowComponentWithChildren");
   const startTime = performance.now();
   while (performance.now() - startTime < 100) {
     // Artificial delay
@@ -54,12 +62,12 @@ const SlowComponentWithChildren = React.memo(({ children }: { children: React.Re
       <div className="mt-4 rounded bg-white p-4 dark:bg-zinc-900">
         {children}
       </div>
-      <p className="mt-2 text-xs text-emerald-600/70 dark:text-emerald-400/70">
-        Rendered at: {new Date().toLocaleTimeString()}
-      </p>
+      <div className="mt-2">
+        <RenderCounter name="SlowComponentWithChildren" />
+      </div>
     </div>
   );
-});
+}));
 SlowComponentWithChildren.displayName = "SlowComponentWithChildren";
 
 const ChapterFiveOptimised = () => {
@@ -90,6 +98,8 @@ const ChapterFiveOptimised = () => {
         <div className="mt-6">
             <CodeBlock 
                 fileName="components/chapter-5/optimised.tsx"
+                highlightLines="3,6-8,11-13"
+                showLineNumbers
                 code={`
 const ChapterFiveOptimised = () => {
   // ✅ Cache the object reference
@@ -137,7 +147,7 @@ const ChapterFiveOptimised = () => {
         </div>
 
         <div className="border-t border-zinc-200 pt-6 dark:border-zinc-800">
-            <h3 className="font-medium">Example 1: Memoized Props</h3>
+            <h3 id="memoized-props" className="scroll-mt-8 font-medium">Example 1: Memoized Props<SectionLink id="memoized-props" /></h3>
             {/* 
               Now passing memoized props!
             */}
@@ -147,7 +157,7 @@ const ChapterFiveOptimised = () => {
             />
 
             <div className="mt-8 border-t border-zinc-200 pt-6 dark:border-zinc-800">
-               <h3 className="font-medium">Example 2: Memoized Children</h3>
+               <h3 id="memoized-children" className="scroll-mt-8 font-medium">Example 2: Memoized Children<SectionLink id="memoized-children" /></h3>
                {/* 
                   Passing memoized children element
                 */}
@@ -157,6 +167,53 @@ const ChapterFiveOptimised = () => {
             </div>
         </div>
       </div>
+
+      <div className="mt-8">
+        <h3 id="memoization-playground" className="scroll-mt-8 mb-3 font-medium">Try it: remove the useCallback<SectionLink id="memoization-playground" /></h3>
+        <p className="mb-3 text-sm text-muted-foreground">
+          Run the snippet, then replace <code>handleChange</code> with a plain
+          arrow function and watch the memoized child start re-rendering.
+        </p>
+        <CodeBlock
+            fileName="playground.tsx"
+            runnable
+            code={`
+import { memo, useCallback, useMemo, useState } from "react";
+import { RenderCounter, useRenderCount } from "@/components/render-counter";
+
+const Child = memo(function Child({ data, onChange }: {
+  data: { value: number };
+  onChange: () => void;
+}) {
+  useRenderCount("Child");
+  return (
+    <button onClick={onChange}>
+      Child (value {data.value}) <RenderCounter name="Child" />
+    </button>
+  );
+});
+
+export default function App() {
+  const [count, setCount] = useState(0);
+
+  // ✅ Stable references keep memo(Child) from re-rendering
+  const data = useMemo(() => ({ value: 1 }), []);
+  const handleChange = useCallback(() => {
+    console.log("Clicked");
+  }, []);
+
+  return (
+    <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+      <button onClick={() => setCount((c) => c + 1)}>
+        Parent count: {count}
+      </button>
+      <Child data={data} onChange={handleChange} />
+    </div>
+  );
+}
+            `}
+        />
+      </div>
     </div>
   );
 };
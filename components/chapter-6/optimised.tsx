@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { CodeBlock } from "@/components/ui/code-block";
+import SectionLink from "@/components/section-link";
 
 const ChapterSixOptimised = () => {
   const [isCompany, setIsCompany] = useState(false);
@@ -23,7 +24,7 @@ const ChapterSixOptimised = () => {
 
       {/* Solution 1: Using Keys */}
       <div className="mb-8 rounded-lg border border-zinc-200 p-6 dark:border-zinc-800">
-        <h2 className="mb-4 text-lg font-semibold">Solution 1: Using Keys</h2>
+        <h2 id="solution-using-keys" className="scroll-mt-8 mb-4 text-lg font-semibold">Solution 1: Using Keys<SectionLink id="solution-using-keys" /></h2>
         <div className="mb-6">
             <CodeBlock 
                 code={`
@@ -98,7 +99,7 @@ const ChapterSixOptimised = () => {
 
       {/* Solution 2: Different Positions */}
       <div className="rounded-lg border border-zinc-200 p-6 dark:border-zinc-800">
-        <h2 className="mb-4 text-lg font-semibold">Solution 2: Different Positions (Arrays)</h2>
+        <h2 id="solution-array-positions" className="scroll-mt-8 mb-4 text-lg font-semibold">Solution 2: Different Positions (Arrays)<SectionLink id="solution-array-positions" /></h2>
         <div className="mb-6">
             <CodeBlock 
                 code={`
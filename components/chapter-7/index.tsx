@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import SectionLink from "@/components/section-link";
 
 // Simulated logging system
 const useLoggingSystem = () => {
@@ -194,7 +195,7 @@ const ChapterSeven = () => {
       <div className="space-y-6">
         {/* Button */}
         <div>
-          <h3 className="mb-2 text-sm font-medium text-zinc-500">Button Component:</h3>
+          <h3 id="button-with-logging" className="scroll-mt-8 mb-2 text-sm font-medium text-zinc-500">Button Component:<SectionLink id="button-with-logging" /></h3>
           <ButtonWithLogging
             onClick={handleClick}
             loggingData={{ text: "primary button" }}
@@ -205,7 +206,7 @@ const ChapterSeven = () => {
 
         {/* List Items */}
         <div>
-          <h3 className="mb-2 text-sm font-medium text-zinc-500">List Items:</h3>
+          <h3 id="list-items-with-logging" className="scroll-mt-8 mb-2 text-sm font-medium text-zinc-500">List Items:<SectionLink id="list-items-with-logging" /></h3>
           <ul className="space-y-2">
             <ListItemWithLogging
               onClick={handleClick}
@@ -224,7 +225,7 @@ const ChapterSeven = () => {
 
         {/* Cards */}
         <div>
-          <h3 className="mb-2 text-sm font-medium text-zinc-500">Card Components:</h3>
+          <h3 id="cards-with-logging" className="scroll-mt-8 mb-2 text-sm font-medium text-zinc-500">Card Components:<SectionLink id="cards-with-logging" /></h3>
           <div className="grid grid-cols-2 gap-4">
             <CardWithLogging
               onClick={handleClick}
@@ -243,7 +244,7 @@ const ChapterSeven = () => {
 
         {/* Modal */}
         <div>
-          <h3 className="mb-2 text-sm font-medium text-zinc-500">Modal (keyboard handling):</h3>
+          <h3 id="modal-keyboard-handling" className="scroll-mt-8 mb-2 text-sm font-medium text-zinc-500">Modal (keyboard handling):<SectionLink id="modal-keyboard-handling" /></h3>
           <button
             onClick={handleOpenModal}
             className="rounded-lg bg-purple-500 px-4 py-2 text-white transition-colors hover:bg-purple-600"
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, ComponentType } from "react";
+import SectionLink from "@/components/section-link";
 
 // ===========================================
 // HIGHER-ORDER COMPONENTS (HOCs)
@@ -267,8 +268,9 @@ const ChapterSevenOptimised = () => {
       <div className="space-y-6">
         {/* Button with logging via HOC */}
         <div>
-          <h3 className="mb-2 text-sm font-medium text-zinc-500">
+          <h3 id="hoc-button-logging" className="scroll-mt-8 mb-2 text-sm font-medium text-zinc-500">
             Button with HOC logging:
+            <SectionLink id="hoc-button-logging" />
           </h3>
           <ButtonWithLogging onClick={handleClick} logText="Primary button clicked">
             Click Me
@@ -277,8 +279,9 @@ const ChapterSevenOptimised = () => {
 
         {/* List Items with logging via HOC */}
         <div>
-          <h3 className="mb-2 text-sm font-medium text-zinc-500">
+          <h3 id="hoc-list-items-logging" className="scroll-mt-8 mb-2 text-sm font-medium text-zinc-500">
             List Items with HOC logging:
+            <SectionLink id="hoc-list-items-logging" />
           </h3>
           <ul className="space-y-2">
             <ListItemWithLogging onClick={handleClick} logText="List item 1 clicked">
@@ -292,8 +295,9 @@ const ChapterSevenOptimised = () => {
 
         {/* Cards with logging via HOC */}
         <div>
-          <h3 className="mb-2 text-sm font-medium text-zinc-500">
+          <h3 id="hoc-cards-logging" className="scroll-mt-8 mb-2 text-sm font-medium text-zinc-500">
             Cards with HOC logging:
+            <SectionLink id="hoc-cards-logging" />
           </h3>
           <div className="grid grid-cols-2 gap-4">
             <CardWithLogging
@@ -313,8 +317,9 @@ const ChapterSevenOptimised = () => {
 
         {/* Mount logging demo */}
         <div>
-          <h3 className="mb-2 text-sm font-medium text-zinc-500">
+          <h3 id="with-logging-on-mount" className="scroll-mt-8 mb-2 text-sm font-medium text-zinc-500">
             withLoggingOnMount HOC:
+            <SectionLink id="with-logging-on-mount" />
           </h3>
           <button
             onClick={handleToggleWelcome}
@@ -328,8 +333,9 @@ const ChapterSevenOptimised = () => {
 
         {/* Modal with keyboard suppression via HOC */}
         <div>
-          <h3 className="mb-2 text-sm font-medium text-zinc-500">
+          <h3 id="with-suppress-key-press" className="scroll-mt-8 mb-2 text-sm font-medium text-zinc-500">
             Modal with withSuppressKeyPress HOC:
+            <SectionLink id="with-suppress-key-press" />
           </h3>
           <button
             onClick={handleOpenModal}
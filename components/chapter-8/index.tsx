@@ -1,29 +1,39 @@
 "use client";
 
 import { useState } from "react";
+import SectionLink from "@/components/section-link";
+import {
+  RenderCounter,
+  useRenderCount,
+  withRenderTiming,
+} from "@/components/render-counter";
 
 // ===========================================
 // THE PROBLEM: Prop Drilling & Unnecessary Re-renders
 // ===========================================
 
 // VerySlowComponent - simulates expensive rendering
-const VerySlowComponent = ({ name }: { name: string }) => {
-  const startTime = performance.now();
-  while (performance.now() - startTime < 50) {
-    // Artificial delay - blocking for 50ms
-  }
+const VerySlowComponent = withRenderTiming(
+  ({ name }) => name,
+  ({ name }: { name: string }) => {
+    useRenderCount(name);
+    const startTime = performance.now();
+    while (performance.now() - startTime < 50) {
+      // Artificial delay - blocking for 50ms
+    }
 
-  return (
-    <div className="rounded-lg border border-dashed border-amber-500/50 bg-amber-500/10 p-3">
-      <span className="text-sm text-amber-600 dark:text-amber-400">
-        🐢 {name} (50ms render)
-      </span>
-      <span className="ml-2 text-xs text-amber-500/70">
-        {new Date().toLocaleTimeString()}
-      </span>
-    </div>
-  );
-};
+    return (
+      <div className="rounded-lg border border-dashed border-amber-500/50 bg-amber-500/10 p-3">
+        <span className="text-sm text-amber-600 dark:text-amber-400">
+          🐢 {name} (50ms render)
+        </span>
+        <span className="ml-2">
+          <RenderCounter name={name} />
+        </span>
+      </div>
+    );
+  }
+);
 
 // AdjustableColumnsBlock - needs to know if sidebar is expanded
 const AdjustableColumnsBlock = ({
@@ -176,7 +186,7 @@ const ChapterEight = () => {
 
       {/* Visual explanation */}
       <div className="mt-8 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
-        <h3 className="mb-3 font-semibold">❌ The Prop Drilling Problem:</h3>
+        <h3 id="prop-drilling-problem" className="scroll-mt-8 mb-3 font-semibold">❌ The Prop Drilling Problem:<SectionLink id="prop-drilling-problem" /></h3>
         <pre className="overflow-x-auto text-xs text-zinc-600 dark:text-zinc-400">
 {`// State at the top level
 const Page = () => {
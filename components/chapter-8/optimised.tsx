@@ -1,16 +1,22 @@
 "use client";
 
+import { ReactNode, memo } from "react";
+import SectionLink from "@/components/section-link";
 import {
-  useState,
-  useContext,
-  createContext,
-  useMemo,
-  useCallback,
-  useReducer,
-  ReactNode,
-  memo,
-  ComponentType,
-} from "react";
+  RenderCounter,
+  useRenderCount,
+  withRenderTiming,
+} from "@/components/render-counter";
+import { ReducerDevtoolsPanel } from "@/components/reducer-devtools";
+import { CodeBlock } from "@/components/ui/code-block";
+import { createSplitContext } from "@/lib/create-split-context";
+import {
+  createDevtools,
+  createLogger,
+  createPersistence,
+  type Middleware,
+} from "@/lib/reducer-middleware";
+import { getSnippet } from "@/lib/snippets";
 
 // ===========================================
 // CONTEXT WITH SPLIT PROVIDERS & REDUCER
@@ -19,29 +25,17 @@ import {
 // Types
 type NavigationState = {
   isNavExpanded: boolean;
-};
-
-type NavigationApi = {
-  open: () => void;
-  close: () => void;
-  toggle: () => void;
+  activeLink: string;
+  unreadCount: number;
 };
 
 type NavigationAction =
   | { type: "open-sidebar" }
   | { type: "close-sidebar" }
-  | { type: "toggle-sidebar" };
-
-// Split Contexts - Data and API separated!
-const NavigationDataContext = createContext<NavigationState>({
-  isNavExpanded: true,
-});
-
-const NavigationApiContext = createContext<NavigationApi>({
-  open: () => {},
-  close: () => {},
-  toggle: () => {},
-});
+  | { type: "toggle-sidebar" }
+  | { type: "select-link"; link: string }
+  | { type: "receive-notification" }
+  | { type: "mark-all-read" };
 
 // Reducer - functions don't depend on state!
 const navigationReducer = (
@@ -55,96 +49,133 @@ const navigationReducer = (
       return { ...state, isNavExpanded: false };
     case "toggle-sidebar":
       return { ...state, isNavExpanded: !state.isNavExpanded };
+    case "select-link":
+      return { ...state, activeLink: action.link };
+    case "receive-notification":
+      return { ...state, unreadCount: state.unreadCount + 1 };
+    case "mark-all-read":
+      return { ...state, unreadCount: 0 };
     default:
       return state;
   }
 };
 
-// Navigation Provider - with memoized values
-const NavigationProvider = ({ children }: { children: ReactNode }) => {
-  const [state, dispatch] = useReducer(navigationReducer, {
-    isNavExpanded: true,
-  });
-
-  // API never changes - no dependencies on state!
-  const api = useMemo<NavigationApi>(
-    () => ({
-      open: () => dispatch({ type: "open-sidebar" }),
-      close: () => dispatch({ type: "close-sidebar" }),
-      toggle: () => dispatch({ type: "toggle-sidebar" }),
+// Link 3 only shows while the sidebar is expanded
+const NAVIGATION_LINKS = ["Link 1", "Link 2", "Link 3"];
+
+// #region navigation-middleware
+// Every action is logged, saved and recorded for the panel below the demo
+const navigationDevtools = createDevtools<NavigationState, NavigationAction>();
+
+const navigationMiddleware: Middleware<NavigationState, NavigationAction>[] = [
+  createLogger("Navigation"),
+  createPersistence({
+    key: "react-internals:chapter-8-navigation",
+    // Notifications shouldn't survive a reload
+    serialize: ({ isNavExpanded, activeLink }) => ({
+      isNavExpanded,
+      activeLink,
     }),
-    []
-  );
-
-  // Data changes with state - memoized
-  const data = useMemo(() => ({ isNavExpanded: state.isNavExpanded }), [state.isNavExpanded]);
-
-  return (
-    <NavigationDataContext.Provider value={data}>
-      <NavigationApiContext.Provider value={api}>
-        {children}
-      </NavigationApiContext.Provider>
-    </NavigationDataContext.Provider>
-  );
-};
-
-// Custom hooks for consuming context
-const useNavigationData = () => useContext(NavigationDataContext);
-const useNavigationApi = () => useContext(NavigationApiContext);
-
-// ===========================================
-// HOC SELECTOR - For components that only need API
-// ===========================================
+    // Anything else in storage is stale or hand-edited, ignore it
+    deserialize: ({ isNavExpanded, activeLink }, state) => ({
+      isNavExpanded:
+        typeof isNavExpanded === "boolean"
+          ? isNavExpanded
+          : state.isNavExpanded,
+      activeLink:
+        NAVIGATION_LINKS.find((link) => link === activeLink) ??
+        state.activeLink,
+    }),
+  }),
+  navigationDevtools.middleware,
+];
+// #endregion
+
+// #region navigation-context
+// Split contexts, memoized API and HOC selector - all from one factory
+const {
+  Provider: NavigationProvider,
+  useData: useNavigationData,
+  useSelector: useNavigationSelector,
+  useApi: useNavigationApi,
+  withApi: withNavigationApi,
+} = createSplitContext({
+  name: "Navigation",
+  reducer: navigationReducer,
+  initialState: { isNavExpanded: true, activeLink: "Link 1", unreadCount: 0 },
+  actions: {
+    open: (): NavigationAction => ({ type: "open-sidebar" }),
+    close: (): NavigationAction => ({ type: "close-sidebar" }),
+    toggle: (): NavigationAction => ({ type: "toggle-sidebar" }),
+    selectLink: (link: string): NavigationAction => ({
+      type: "select-link",
+      link,
+    }),
+    receiveNotification: (): NavigationAction => ({
+      type: "receive-notification",
+    }),
+    markAllRead: (): NavigationAction => ({ type: "mark-all-read" }),
+  },
+  middleware: navigationMiddleware,
+});
+// #endregion
 
-// HOC that provides navigation API without re-renders on state change
-const withNavigationApi = <P extends { navApi?: NavigationApi }>(
-  Component: ComponentType<P>
-) => {
-  const MemoizedComponent = memo(Component);
+// #region navigation-selectors
+// Selectors live outside components so they keep the same identity
+const selectIsNavExpanded = (state: NavigationState) => state.isNavExpanded;
+const selectActiveLink = (state: NavigationState) => state.activeLink;
+const selectUnreadCount = (state: NavigationState) => state.unreadCount;
 
-  const WrappedComponent = (props: Omit<P, "navApi">) => {
-    const api = useNavigationApi();
-    return <MemoizedComponent {...(props as P)} navApi={api} />;
-  };
+// Re-renders on toggle only, not on link clicks or notifications
+const useIsNavExpanded = () => useNavigationSelector(selectIsNavExpanded);
+// #endregion
 
-  WrappedComponent.displayName = `withNavigationApi(${Component.displayName || Component.name || "Component"})`;
-  return WrappedComponent;
-};
+type NavigationApi = ReturnType<typeof useNavigationApi>;
 
 // ===========================================
 // COMPONENTS
 // ===========================================
 
 // VerySlowComponent - simulates expensive rendering
-const VerySlowComponent = memo(({ name }: { name: string }) => {
-  const startTime = performance.now();
-  while (performance.now() - startTime < 50) {
-    // Artificial delay
-  }
-
-  return (
-    <div className="rounded-lg border border-dashed border-emerald-500/50 bg-emerald-500/10 p-3">
-      <span className="text-sm text-emerald-600 dark:text-emerald-400">
-        🚀 {name} (50ms render)
-      </span>
-      <span className="ml-2 text-xs text-emerald-500/70">
-        {new Date().toLocaleTimeString()}
-      </span>
-    </div>
-  );
-});
+const VerySlowComponent = memo(
+  withRenderTiming<{ name: string }>(
+    ({ name }) => name,
+    function VerySlowComponent({ name }: { name: string }) {
+      useRenderCount(name);
+      const startTime = performance.now();
+      while (performance.now() - startTime < 50) {
+        // Artificial delay
+      }
+
+      return (
+        <div className="rounded-lg border border-dashed border-emerald-500/50 bg-emerald-500/10 p-3">
+          <span className="text-sm text-emerald-600 dark:text-emerald-400">
+            🚀 {name} (50ms render)
+          </span>
+          <span className="ml-2">
+            <RenderCounter name={name} />
+          </span>
+        </div>
+      );
+    }
+  )
+);
 VerySlowComponent.displayName = "VerySlowComponent";
 
-// AdjustableColumnsBlock - uses NavigationData context
-const AdjustableColumnsBlock = () => {
-  // Only this component subscribes to the data!
-  const { isNavExpanded } = useNavigationData();
+// AdjustableColumnsBlock - selects only isNavExpanded
+const AdjustableColumnsBlock = withRenderTiming("AdjustableColumnsBlock", () => {
+  useRenderCount("AdjustableColumnsBlock");
+  // Only this slice of the state re-renders it
+  const isNavExpanded = useIsNavExpanded();
 
   return (
     <div className="mt-4 rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-700 dark:bg-zinc-800">
-      <h4 className="mb-2 text-sm font-medium text-zinc-500">
-        Columns Block (uses Context)
-      </h4>
+      <div className="mb-2 flex items-center justify-between">
+        <h4 className="text-sm font-medium text-zinc-500">
+          Columns Block (uses Context)
+        </h4>
+        <RenderCounter name="AdjustableColumnsBlock" />
+      </div>
       <div
         className={`grid gap-2 ${isNavExpanded ? "grid-cols-2" : "grid-cols-3"}`}
       >
@@ -162,30 +193,74 @@ const AdjustableColumnsBlock = () => {
       </p>
     </div>
   );
-};
+});
+
+// NotificationBadge - selects only unreadCount
+const NotificationBadge = withRenderTiming("NotificationBadge", () => {
+  useRenderCount("NotificationBadge");
+  const unreadCount = useNavigationSelector(selectUnreadCount);
+
+  return (
+    <div className="flex items-center gap-2">
+      <span
+        className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+          unreadCount > 0
+            ? "bg-red-500 text-white"
+            : "bg-zinc-200 text-zinc-500 dark:bg-zinc-700 dark:text-zinc-400"
+        }`}
+      >
+        🔔 {unreadCount}
+      </span>
+      <RenderCounter name="NotificationBadge" />
+    </div>
+  );
+});
+
+// StatusBar - reads the whole state, for contrast
+const StatusBar = withRenderTiming("StatusBar", () => {
+  useRenderCount("StatusBar");
+  const { isNavExpanded, activeLink, unreadCount } = useNavigationData();
+
+  return (
+    <div className="flex items-center justify-between rounded bg-zinc-100 px-3 py-2 text-xs text-zinc-500 dark:bg-zinc-900">
+      <span>
+        {activeLink} · {isNavExpanded ? "expanded" : "collapsed"} ·{" "}
+        {unreadCount} unread
+      </span>
+      <RenderCounter name="StatusBar" />
+    </div>
+  );
+});
 
 // MainPart - NO PROPS needed! Children as props pattern
 const MainPart = () => {
   return (
     <div className="flex-1 space-y-3 p-4">
-      <h3 className="font-semibold text-zinc-700 dark:text-zinc-300">
-        Main Content
-      </h3>
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-zinc-700 dark:text-zinc-300">
+          Main Content
+        </h3>
+        <NotificationBadge />
+      </div>
 
       {/* These DON'T re-render on toggle anymore! */}
       <VerySlowComponent name="SlowComponent 1" />
       <VerySlowComponent name="SlowComponent 2" />
       <VerySlowComponent name="SlowComponent 3" />
 
-      {/* Only THIS component re-renders - it uses the context */}
+      {/* Only THIS component re-renders on toggle - it selects isNavExpanded */}
       <AdjustableColumnsBlock />
+
+      {/* useNavigationData: re-renders on every change */}
+      <StatusBar />
     </div>
   );
 };
 
-// ExpandButton - uses both Data and API contexts
-const ExpandButton = () => {
-  const { isNavExpanded } = useNavigationData();
+// ExpandButton - selects from the data, dispatches through the API
+const ExpandButton = withRenderTiming("ExpandButton", () => {
+  useRenderCount("ExpandButton");
+  const isNavExpanded = useIsNavExpanded();
   const { toggle } = useNavigationApi();
 
   return (
@@ -198,11 +273,45 @@ const ExpandButton = () => {
       {isNavExpanded ? "◀ Collapse" : "▶ Expand"}
     </button>
   );
-};
+});
+
+// NavLinks - selects only activeLink
+const NavLinks = withRenderTiming(
+  "NavLinks",
+  ({ isNavExpanded }: { isNavExpanded: boolean }) => {
+    useRenderCount("NavLinks");
+    const activeLink = useNavigationSelector(selectActiveLink);
+    const { selectLink } = useNavigationApi();
+    const links = isNavExpanded
+      ? NAVIGATION_LINKS
+      : NAVIGATION_LINKS.slice(0, 2);
+
+    return (
+      <nav className="mt-4 space-y-2">
+        {links.map((link) => (
+          <button
+            key={link}
+            onClick={() => selectLink(link)}
+            className={`block w-full rounded px-2 py-1 text-left text-xs ${
+              link === activeLink
+                ? "bg-emerald-500 text-white"
+                : "bg-zinc-200 hover:bg-zinc-300 dark:bg-zinc-800 dark:hover:bg-zinc-700"
+            }`}
+            type="button"
+            aria-current={link === activeLink ? "page" : undefined}
+          >
+            {link}
+          </button>
+        ))}
+      </nav>
+    );
+  }
+);
 
 // Sidebar - NO PROPS needed!
-const Sidebar = () => {
-  const { isNavExpanded } = useNavigationData();
+const Sidebar = withRenderTiming("Sidebar", () => {
+  useRenderCount("Sidebar");
+  const isNavExpanded = useIsNavExpanded();
 
   return (
     <div
@@ -211,23 +320,10 @@ const Sidebar = () => {
       }`}
     >
       <ExpandButton />
-
-      <nav className="mt-4 space-y-2">
-        <div className="rounded bg-zinc-200 px-2 py-1 text-xs dark:bg-zinc-800">
-          Link 1
-        </div>
-        <div className="rounded bg-zinc-200 px-2 py-1 text-xs dark:bg-zinc-800">
-          Link 2
-        </div>
-        {isNavExpanded && (
-          <div className="rounded bg-zinc-200 px-2 py-1 text-xs dark:bg-zinc-800">
-            Link 3
-          </div>
-        )}
-      </nav>
+      <NavLinks isNavExpanded={isNavExpanded} />
     </div>
   );
-};
+});
 
 // Layout component
 const Layout = ({ children }: { children: ReactNode }) => {
@@ -239,11 +335,8 @@ const Layout = ({ children }: { children: ReactNode }) => {
 };
 
 // Demo: Heavy component that only uses API (won't re-render on state change!)
-const HeavyComponentBase = ({
-  navApi,
-}: {
-  navApi?: NavigationApi;
-}) => {
+const HeavyComponentBase = ({ api }: { api?: NavigationApi }) => {
+  useRenderCount("HeavyComponent");
   const startTime = performance.now();
   while (performance.now() - startTime < 30) {
     // Artificial delay
@@ -251,7 +344,7 @@ const HeavyComponentBase = ({
 
   return (
     <button
-      onClick={navApi?.close}
+      onClick={api?.close}
       className="rounded bg-purple-500 px-3 py-1 text-xs text-white hover:bg-purple-600"
       type="button"
     >
@@ -260,7 +353,33 @@ const HeavyComponentBase = ({
   );
 };
 
-const HeavyComponentWithApi = withNavigationApi(HeavyComponentBase);
+const HeavyComponentWithApi = withNavigationApi(
+  withRenderTiming("HeavyComponent", HeavyComponentBase)
+);
+
+// Only dispatches, so it never re-renders either
+const NotificationControls = () => {
+  const { receiveNotification, markAllRead } = useNavigationApi();
+
+  return (
+    <div className="flex gap-2">
+      <button
+        onClick={receiveNotification}
+        className="rounded bg-red-500 px-3 py-1 text-xs text-white hover:bg-red-600"
+        type="button"
+      >
+        New notification
+      </button>
+      <button
+        onClick={markAllRead}
+        className="rounded bg-zinc-200 px-3 py-1 text-xs hover:bg-zinc-300 dark:bg-zinc-700 dark:hover:bg-zinc-600"
+        type="button"
+      >
+        Mark all read
+      </button>
+    </div>
+  );
+};
 
 // ===========================================
 // MAIN COMPONENT
@@ -294,11 +413,23 @@ const ChapterEightOptimised = () => {
         </Layout>
 
         {/* Demo of HOC selector */}
-        <div className="mt-4">
+        <div className="mt-4 flex items-center gap-2">
           <HeavyComponentWithApi />
+          <RenderCounter name="HeavyComponent" />
+        </div>
+
+        {/* Each button changes one field of the state */}
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <NotificationControls />
+          <span className="text-xs text-zinc-400">
+            or click a sidebar link
+          </span>
         </div>
       </NavigationProvider>
 
+      {/* Reads the devtools, not the context: jumping re-renders the demo */}
+      <ReducerDevtoolsPanel devtools={navigationDevtools} name="Navigation" />
+
       {/* Optimization techniques */}
       <div className="mt-8 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
         <h3 className="mb-3 font-semibold">✅ Optimizations Applied:</h3>
@@ -347,7 +478,7 @@ const ChapterEightOptimised = () => {
 
       {/* Code example */}
       <div className="mt-4 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
-        <h3 className="mb-2 font-semibold">Split Provider Pattern:</h3>
+        <h3 id="split-provider-pattern" className="scroll-mt-8 mb-2 font-semibold">Split Provider Pattern:<SectionLink id="split-provider-pattern" /></h3>
         <pre className="overflow-x-auto text-xs text-zinc-600 dark:text-zinc-400">
 {`// Two separate contexts
 const NavigationDataContext = createContext({ isNavExpanded: true });
@@ -382,9 +513,114 @@ const NavigationProvider = ({ children }) => {
         </pre>
       </div>
 
+      {/* Factory */}
+      <div className="mt-4 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
+        <h3 id="create-split-context" className="scroll-mt-8 mb-2 font-semibold">
+          Without the Boilerplate: createSplitContext
+          <SectionLink id="create-split-context" />
+        </h3>
+        <p className="mb-3 text-sm text-zinc-600 dark:text-zinc-400">
+          The demo above is built with this call instead of the hand-written
+          provider. Toggle the sidebar and compare the render counters: only
+          the components that read the sidebar state re-render, the slow ones
+          and HeavyComponent stay at their first render.
+        </p>
+        <CodeBlock
+          {...getSnippet("components/chapter-8/optimised.tsx#navigation-context")}
+        />
+      </div>
+
+      {/* Selectors */}
+      <div className="mt-4 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
+        <h3 id="context-selectors" className="scroll-mt-8 mb-2 font-semibold">
+          Subscribing to a Slice: useContextSelector
+          <SectionLink id="context-selectors" />
+        </h3>
+        <p className="mb-3 text-sm text-zinc-600 dark:text-zinc-400">
+          The split stops API consumers from re-rendering, but every{" "}
+          <code>useNavigationData()</code> consumer still re-renders when{" "}
+          <em>any</em> field changes. The provider keeps its state in a store,
+          and each component selects the field it needs. Click a link or add a
+          notification and watch which counters move:
+        </p>
+        <table className="mb-3 w-full text-left text-xs">
+          <thead className="text-zinc-500">
+            <tr>
+              <th className="py-1 font-medium">Action</th>
+              <th className="py-1 font-medium">Re-renders</th>
+            </tr>
+          </thead>
+          <tbody className="text-zinc-600 dark:text-zinc-400">
+            <tr className="border-t border-zinc-200 dark:border-zinc-700">
+              <td className="py-1">Toggle sidebar</td>
+              <td className="py-1">
+                Sidebar (with ExpandButton and NavLinks inside it),
+                AdjustableColumnsBlock, StatusBar
+              </td>
+            </tr>
+            <tr className="border-t border-zinc-200 dark:border-zinc-700">
+              <td className="py-1">Click a link</td>
+              <td className="py-1">NavLinks, StatusBar</td>
+            </tr>
+            <tr className="border-t border-zinc-200 dark:border-zinc-700">
+              <td className="py-1">New notification</td>
+              <td className="py-1">NotificationBadge, StatusBar</td>
+            </tr>
+            <tr className="border-t border-zinc-200 dark:border-zinc-700">
+              <td className="py-1">Mark all read with nothing unread</td>
+              <td className="py-1">
+                Nothing: the state didn&apos;t change, so no one is notified
+              </td>
+            </tr>
+          </tbody>
+        </table>
+        <p className="mb-3 text-xs text-zinc-500">
+          StatusBar is the only component left on{" "}
+          <code>useNavigationData()</code>, and it re-renders for every action.
+        </p>
+        <CodeBlock
+          {...getSnippet(
+            "components/chapter-8/optimised.tsx#navigation-selectors"
+          )}
+        />
+        <div className="mt-3">
+          <CodeBlock
+            {...getSnippet("hooks/use-context-selector.ts#use-context-selector")}
+            maxLines={20}
+          />
+        </div>
+      </div>
+
+      {/* Middleware */}
+      <div className="mt-4 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
+        <h3 id="reducer-middleware" className="scroll-mt-8 mb-2 font-semibold">
+          Seeing the Actions: Reducer Middleware
+          <SectionLink id="reducer-middleware" />
+        </h3>
+        <p className="mb-3 text-sm text-zinc-600 dark:text-zinc-400">
+          Every dispatch passes through a middleware chain before it reaches{" "}
+          <code>navigationReducer</code>. The logger prints each action to the
+          console, persistence restores the sidebar and active link after a
+          reload, and the devtools feed the action log under the demo. Click{" "}
+          <strong>Jump</strong> on any entry to put the store back in that
+          state: components re-render from their selectors as if the actions
+          after it never happened, and the next action replaces them.
+        </p>
+        <CodeBlock
+          {...getSnippet(
+            "components/chapter-8/optimised.tsx#navigation-middleware"
+          )}
+        />
+        <p className="mt-3 text-xs text-zinc-500">
+          The middleware are attached after the provider mounts, so the server
+          render and hydration always use <code>initialState</code> and the
+          saved state arrives one render later.
+        </p>
+      </div>
+
       {/* Re-render comparison */}
       <div className="mt-4 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
-        <h3 className="mb-3 font-semibold">Re-render Comparison:</h3>
+        <h3 id="re-render-comparison" className="scroll-mt-8 mb-3 font-semibold">Re-render Comparison:<SectionLink id="re-render-comparison" /></h3>
         <div className="grid grid-cols-2 gap-4 text-xs">
           <div>
             <h4 className="mb-2 font-medium text-red-500">❌ Without Context</h4>
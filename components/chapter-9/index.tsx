@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
+import SectionLink from "@/components/section-link";
 
 // ===========================================
 // THE PROBLEM: Managing focus without proper patterns
@@ -60,7 +61,7 @@ const RefVsStateDemo = () => {
 
   return (
     <div className="space-y-4 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-900">
-      <h3 className="font-semibold">Ref vs State Demo</h3>
+      <h3 id="ref-vs-state-demo" className="scroll-mt-8 font-semibold">Ref vs State Demo<SectionLink id="ref-vs-state-demo" /></h3>
 
       <div className="grid grid-cols-2 gap-4">
         {/* State-based input */}
@@ -178,7 +179,7 @@ const ChapterNine = () => {
 
       {/* Form */}
       <div className="mt-8 rounded-xl border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-700 dark:bg-zinc-800">
-        <h2 className="mb-4 text-lg font-semibold">Sign Up Form</h2>
+        <h2 id="sign-up-form" className="scroll-mt-8 mb-4 text-lg font-semibold">Sign Up Form<SectionLink id="sign-up-form" /></h2>
 
         {errors.length > 0 && (
           <div className="mb-4 rounded-lg border border-red-200 bg-red-50 p-3 dark:border-red-800 dark:bg-red-900/20">
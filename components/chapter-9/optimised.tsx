@@ -7,6 +7,7 @@ import {
   forwardRef,
   useEffect,
 } from "react";
+import SectionLink from "@/components/section-link";
 
 // ===========================================
 // IMPERATIVE API TYPE
@@ -246,7 +247,7 @@ const ChapterNineOptimised = () => {
 
       {/* Form */}
       <div className="rounded-xl border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-700 dark:bg-zinc-800">
-        <h2 className="mb-4 text-lg font-semibold">Sign Up Form</h2>
+        <h2 id="sign-up-form-with-refs" className="scroll-mt-8 mb-4 text-lg font-semibold">Sign Up Form<SectionLink id="sign-up-form-with-refs" /></h2>
 
         {submitted && (
           <div className="mb-4 rounded-lg border border-emerald-200 bg-emerald-50 p-3 dark:border-emerald-800 dark:bg-emerald-900/20">
@@ -349,7 +350,7 @@ const ChapterNineOptimised = () => {
 
       {/* Three Methods */}
       <div className="mt-8 space-y-4">
-        <h3 className="font-semibold">Three Ways to Pass Refs:</h3>
+        <h3 id="three-ways-to-pass-refs" className="scroll-mt-8 font-semibold">Three Ways to Pass Refs:<SectionLink id="three-ways-to-pass-refs" /></h3>
 
         {/* Method 1 */}
         <div className="rounded-lg border border-emerald-200 bg-emerald-50 p-4 dark:border-emerald-800 dark:bg-emerald-900/20">
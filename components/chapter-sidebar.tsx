@@ -0,0 +1,70 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { ChapterSummary } from "@/lib/chapters";
+
+type ChapterSidebarProps = {
+  chapters: ChapterSummary[];
+};
+
+const ChapterSidebar = ({ chapters }: ChapterSidebarProps) => {
+  const pathname = usePathname();
+
+  return (
+    <aside className="sticky top-0 h-screen w-64 border-r border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
+      <div className="p-4 border-b border-zinc-200 dark:border-zinc-800">
+        <h1 className="text-lg font-bold text-zinc-900 dark:text-zinc-100">
+          React Internals
+        </h1>
+        <p className="text-xs text-muted-foreground mt-1">
+          Advanced React Patterns
+        </p>
+      </div>
+
+      <ScrollArea className="h-[calc(100vh-80px)]">
+        <nav className="p-3" role="navigation" aria-label="Chapter navigation">
+          <ul className="space-y-1">
+            {chapters.map((chapter) => {
+              const href = `/chapters/${chapter.id}`;
+              const isActive = pathname === href;
+
+              return (
+                <li key={chapter.id}>
+                  <Link
+                    href={href}
+                    aria-label={`${chapter.title}: ${chapter.description}`}
+                    aria-current={isActive ? "page" : undefined}
+                    className={`
+                      block w-full rounded-lg px-3 py-3 text-left transition-colors
+                      ${isActive
+                        ? "bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900"
+                        : "hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                      }
+                    `}
+                  >
+                    <span className="font-medium text-sm">{chapter.title}</span>
+                    <p
+                      className={`
+                        mt-1 text-xs
+                        ${isActive
+                          ? "text-zinc-300 dark:text-zinc-600"
+                          : "text-muted-foreground"
+                        }
+                      `}
+                    >
+                      {chapter.description}
+                    </p>
+                  </Link>
+                </li>
+              );
+            })}
+          </ul>
+        </nav>
+      </ScrollArea>
+    </aside>
+  );
+};
+
+export default ChapterSidebar;
@@ -0,0 +1,90 @@
+"use client";
+
+import { Suspense, use, useState } from "react";
+import HashScroll from "@/components/hash-scroll";
+import { RenderStatsPanel } from "@/components/render-counter";
+import RenderMetricsComparison from "@/components/render-metrics";
+import {
+  getChapter,
+  type ChapterId,
+  type ChapterLoader,
+  type ChapterModule,
+} from "@/lib/chapters";
+import { createRenderStatsStore } from "@/lib/render-stats";
+
+// use() needs the same promise on every render, so each loader runs once
+const modules = new Map<ChapterLoader, Promise<ChapterModule>>();
+
+const loadChapterModule = (load: ChapterLoader) => {
+  let promise = modules.get(load);
+  if (!promise) {
+    promise = load();
+    modules.set(load, promise);
+  }
+  return promise;
+};
+
+// Placeholder shaped like a chapter header + demo while its bundle loads
+const ChapterSkeleton = () => (
+  <div className="mx-auto max-w-2xl animate-pulse p-8" aria-busy="true">
+    <div className="h-8 w-2/3 rounded bg-zinc-200 dark:bg-zinc-800" />
+    <div className="mt-4 h-4 w-full rounded bg-zinc-200 dark:bg-zinc-800" />
+    <div className="mt-2 h-4 w-5/6 rounded bg-zinc-200 dark:bg-zinc-800" />
+    <div className="mt-6 h-40 rounded-lg bg-zinc-200 dark:bg-zinc-800" />
+    <div className="mt-8 h-24 rounded-lg bg-zinc-200 dark:bg-zinc-800" />
+    <span className="sr-only">Loading chapter...</span>
+  </div>
+);
+
+const ChapterHalf = ({ load }: { load: ChapterLoader }) => {
+  const { default: Chapter } = use(loadChapterModule(load));
+
+  return (
+    <>
+      <Chapter />
+      {/* Sections only exist once this half has loaded */}
+      <HashScroll />
+    </>
+  );
+};
+
+type ChapterViewProps = {
+  id: ChapterId;
+};
+
+const ChapterView = ({ id }: ChapterViewProps) => {
+  // A ChapterId always has a registry entry
+  const { load, loadOptimised } = getChapter(id)!;
+  const [nonOptimisedStats] = useState(createRenderStatsStore);
+  const [optimisedStats] = useState(createRenderStatsStore);
+
+  return (
+    <>
+      <RenderMetricsComparison
+        nonOptimised={nonOptimisedStats}
+        optimised={optimisedStats}
+      />
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-0 divide-y xl:divide-y-0 xl:divide-x divide-zinc-200 dark:divide-zinc-800">
+        {/* Non-optimised */}
+        <div className="min-h-screen" data-scan-scope="non-optimised">
+          <RenderStatsPanel id="non-optimised" store={nonOptimisedStats}>
+            <Suspense fallback={<ChapterSkeleton />}>
+              <ChapterHalf load={load} />
+            </Suspense>
+          </RenderStatsPanel>
+        </div>
+
+        {/* Optimised */}
+        <div className="min-h-screen" data-scan-scope="optimised">
+          <RenderStatsPanel id="optimised" store={optimisedStats}>
+            <Suspense fallback={<ChapterSkeleton />}>
+              <ChapterHalf load={loadOptimised} />
+            </Suspense>
+          </RenderStatsPanel>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ChapterView;
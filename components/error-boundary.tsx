@@ -0,0 +1,189 @@
+"use client";
+
+import {
+  Component,
+  createContext,
+  type ComponentType,
+  type ContextType,
+  type ErrorInfo,
+  type ReactNode,
+} from "react";
+import { ErrorReporterContext } from "@/components/error-reporter";
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export type FallbackProps = {
+  error: Error;
+  resetErrorBoundary: () => void;
+};
+
+export type ResetDetails =
+  | { reason: "imperative-api" }
+  | { reason: "keys"; prev: readonly unknown[]; next: readonly unknown[] };
+
+export type ErrorBoundaryProps = {
+  children?: ReactNode;
+  // Fallbacks, first one given wins
+  FallbackComponent?: ComponentType<FallbackProps>;
+  fallbackRender?: (props: FallbackProps) => ReactNode;
+  fallback?: ReactNode;
+  // Any change to these values resets a boundary that is showing its fallback
+  resetKeys?: readonly unknown[];
+  // Clean up whatever caused the error before the children render again
+  onReset?: (details: ResetDetails) => void;
+  onError?: (error: Error, errorInfo: ErrorInfo) => void;
+};
+
+type ErrorBoundaryState = {
+  error: Error | null;
+};
+
+export type ErrorBoundaryContextValue = {
+  error: Error | null;
+  resetErrorBoundary: () => void;
+};
+
+// Lets useErrorBoundary() reach the nearest boundary, from its children as
+// well as from its fallback
+export const ErrorBoundaryContext =
+  createContext<ErrorBoundaryContextValue | null>(null);
+
+const haveKeysChanged = (
+  prev: readonly unknown[] = [],
+  next: readonly unknown[] = []
+) =>
+  prev.length !== next.length ||
+  prev.some((value, index) => !Object.is(value, next[index]));
+
+// ===========================================
+// ERROR BOUNDARY COMPONENT
+// ===========================================
+
+// #region error-boundary
+export class ErrorBoundary extends Component<
+  ErrorBoundaryProps,
+  ErrorBoundaryState
+> {
+  static contextType = ErrorReporterContext;
+  declare context: ContextType<typeof ErrorReporterContext>;
+
+  state: ErrorBoundaryState = { error: null };
+
+  // Called when a child throws during render
+  static getDerivedStateFromError(error: Error): ErrorBoundaryState {
+    return { error };
+  }
+
+  // Called after the error - good for logging
+  componentDidCatch(error: Error, errorInfo: ErrorInfo) {
+    this.context?.report(error, {
+      source: "boundary",
+      componentStack: errorInfo.componentStack,
+    });
+    this.props.onError?.(error, errorInfo);
+  }
+
+  componentDidUpdate(
+    prevProps: ErrorBoundaryProps,
+    prevState: ErrorBoundaryState
+  ) {
+    // Skip the update that caught the error: resetKeys changing in that same
+    // render would otherwise reset straight back into the broken children
+    if (
+      this.state.error !== null &&
+      prevState.error !== null &&
+      haveKeysChanged(prevProps.resetKeys, this.props.resetKeys)
+    ) {
+      this.props.onReset?.({
+        reason: "keys",
+        prev: prevProps.resetKeys ?? [],
+        next: this.props.resetKeys ?? [],
+      });
+      this.setState({ error: null });
+    }
+  }
+
+  resetErrorBoundary = () => {
+    if (this.state.error === null) {
+      return;
+    }
+    this.props.onReset?.({ reason: "imperative-api" });
+    this.setState({ error: null });
+  };
+
+  renderFallback(error: Error) {
+    const { FallbackComponent, fallbackRender, fallback } = this.props;
+    const fallbackProps = {
+      error,
+      resetErrorBoundary: this.resetErrorBoundary,
+    };
+
+    if (FallbackComponent) {
+      return <FallbackComponent {...fallbackProps} />;
+    }
+    if (fallbackRender) {
+      return fallbackRender(fallbackProps);
+    }
+    if (fallback !== undefined) {
+      return fallback;
+    }
+    return <DefaultFallback {...fallbackProps} />;
+  }
+
+  render() {
+    const { error } = this.state;
+
+    return (
+      <ErrorBoundaryContext.Provider
+        value={{ error, resetErrorBoundary: this.resetErrorBoundary }}
+      >
+        {error === null ? this.props.children : this.renderFallback(error)}
+      </ErrorBoundaryContext.Provider>
+    );
+  }
+}
+// #endregion
+
+const DefaultFallback = ({ error, resetErrorBoundary }: FallbackProps) => (
+  <div
+    role="alert"
+    className="rounded-lg border border-red-300 bg-red-50 p-4 dark:border-red-700 dark:bg-red-900/20"
+  >
+    <h3 className="font-semibold text-red-700 dark:text-red-400">
+      Something went wrong
+    </h3>
+    <p className="mt-1 text-sm text-red-600 dark:text-red-500">
+      {error.message}
+    </p>
+    <button
+      onClick={resetErrorBoundary}
+      className="mt-3 rounded bg-red-500 px-3 py-1 text-sm text-white hover:bg-red-600"
+      type="button"
+    >
+      Try Again
+    </button>
+  </div>
+);
+
+// ===========================================
+// HOC: wrap a component in its own boundary
+// ===========================================
+
+export const withErrorBoundary = <P extends object>(
+  WrappedComponent: ComponentType<P>,
+  boundaryProps: Omit<ErrorBoundaryProps, "children"> = {}
+) => {
+  const WithErrorBoundary = (props: P) => (
+    <ErrorBoundary {...boundaryProps}>
+      <WrappedComponent {...props} />
+    </ErrorBoundary>
+  );
+
+  WithErrorBoundary.displayName = `withErrorBoundary(${
+    WrappedComponent.displayName || WrappedComponent.name || "Component"
+  })`;
+
+  return WithErrorBoundary;
+};
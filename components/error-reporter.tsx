@@ -0,0 +1,164 @@
+"use client";
+
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useState,
+  useSyncExternalStore,
+  type ReactNode,
+} from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  createErrorReporter,
+  EMPTY_ERROR_REPORTS,
+  type ErrorReporterStore,
+  type ErrorSource,
+  type ErrorTransport,
+} from "@/lib/error-reporter";
+
+export const ErrorReporterContext = createContext<ErrorReporterStore | null>(
+  null
+);
+
+// null outside the provider, so boundaries still work on their own
+export const useErrorReporter = () => useContext(ErrorReporterContext);
+
+// "/chapters/chapter-3" -> "chapter-3", read when the error happens
+const getChapterId = () =>
+  window.location.pathname.match(/^\/chapters\/([^/]+)/)?.[1] ?? null;
+
+// ===========================================
+// PROVIDER: collects errors from boundaries and the window
+// ===========================================
+
+type ErrorReporterProviderProps = {
+  transport?: ErrorTransport;
+  children: ReactNode;
+};
+
+export const ErrorReporterProvider = ({
+  transport,
+  children,
+}: ErrorReporterProviderProps) => {
+  const [reporter] = useState(() =>
+    createErrorReporter({ transport, getChapterId })
+  );
+
+  // Errors no boundary saw: event handlers, timers, rejected promises
+  useEffect(() => {
+    const handleError = (event: ErrorEvent) =>
+      reporter.report(event.error ?? event.message, { source: "window" });
+    const handleRejection = (event: PromiseRejectionEvent) =>
+      reporter.report(event.reason, { source: "unhandledrejection" });
+
+    window.addEventListener("error", handleError);
+    window.addEventListener("unhandledrejection", handleRejection);
+    return () => {
+      window.removeEventListener("error", handleError);
+      window.removeEventListener("unhandledrejection", handleRejection);
+    };
+  }, [reporter]);
+
+  return (
+    <ErrorReporterContext.Provider value={reporter}>
+      {children}
+      <ErrorsDrawer reporter={reporter} />
+    </ErrorReporterContext.Provider>
+  );
+};
+
+// ===========================================
+// DRAWER: lists every reported error
+// ===========================================
+
+const sourceLabels: Record<ErrorSource, string> = {
+  boundary: "ErrorBoundary",
+  window: "window.onerror",
+  unhandledrejection: "Unhandled rejection",
+};
+
+const ErrorsDrawer = ({ reporter }: { reporter: ErrorReporterStore }) => {
+  const reports = useSyncExternalStore(
+    reporter.subscribe,
+    reporter.getReports,
+    () => EMPTY_ERROR_REPORTS
+  );
+
+  if (reports.length === 0) {
+    return null;
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button
+          className="fixed bottom-4 right-4 z-40 rounded-full border border-red-300 bg-white px-3 py-1.5 text-xs font-medium text-red-600 shadow dark:border-red-800 dark:bg-zinc-900 dark:text-red-400"
+          type="button"
+        >
+          Errors ({reports.length})
+        </button>
+      </DialogTrigger>
+      <DialogContent className="top-0 right-0 left-auto flex h-full max-w-[calc(100%-2rem)] translate-x-0 translate-y-0 flex-col rounded-none sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Errors</DialogTitle>
+          <DialogDescription>
+            Everything caught by error boundaries or reported to the window,
+            grouped by message and component stack.
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="-mx-2 flex-1 space-y-2 overflow-y-auto px-2">
+          {reports.map((report) => (
+            <li
+              key={report.id}
+              className="rounded-lg border border-zinc-200 p-3 text-sm dark:border-zinc-800"
+            >
+              <div className="flex items-start justify-between gap-2">
+                <p className="font-medium text-red-600 dark:text-red-400">
+                  {report.message}
+                </p>
+                {report.count > 1 && (
+                  <span className="shrink-0 rounded-full bg-red-100 px-2 text-xs text-red-700 dark:bg-red-900/40 dark:text-red-300">
+                    ×{report.count}
+                  </span>
+                )}
+              </div>
+              <p className="mt-1 text-xs text-muted-foreground">
+                {sourceLabels[report.source]}
+                {report.chapterId && ` · ${report.chapterId}`}
+                {" · "}
+                <time dateTime={new Date(report.lastSeen).toISOString()}>
+                  {new Date(report.lastSeen).toLocaleTimeString()}
+                </time>
+              </p>
+              {report.componentStack && (
+                <details className="mt-2">
+                  <summary className="cursor-pointer text-xs text-muted-foreground">
+                    Component stack
+                  </summary>
+                  <pre className="mt-1 overflow-x-auto text-xs text-zinc-600 dark:text-zinc-400">
+                    {report.componentStack.trim()}
+                  </pre>
+                </details>
+              )}
+            </li>
+          ))}
+        </ul>
+        <button
+          onClick={reporter.clear}
+          className="self-end rounded bg-zinc-100 px-3 py-1 text-sm hover:bg-zinc-200 dark:bg-zinc-800 dark:hover:bg-zinc-700"
+          type="button"
+        >
+          Clear
+        </button>
+      </DialogContent>
+    </Dialog>
+  );
+};
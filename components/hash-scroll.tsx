@@ -0,0 +1,27 @@
+"use client";
+
+import { useEffect } from "react";
+import { useLocationHash } from "@/hooks/use-location-hash";
+
+// Scrolls the section named in the URL hash into view once the chapter has
+// rendered. The browser only does this on the initial document load, which
+// misses client-side navigations and sections that render after hydration.
+const HashScroll = () => {
+  const hash = useLocationHash();
+
+  useEffect(() => {
+    if (!hash) {
+      return;
+    }
+
+    const frame = requestAnimationFrame(() => {
+      document.getElementById(hash)?.scrollIntoView({ block: "start" });
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [hash]);
+
+  return null;
+};
+
+export default HashScroll;
@@ -0,0 +1,152 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import {
+  DEFAULT_MOCK_API_SETTINGS,
+  getMockApiSettings,
+  resetMockApiSettings,
+  restartMockApiSequence,
+  subscribeToMockApiSettings,
+  updateMockApiSettings,
+  type MockApiPreset,
+  type MockPath,
+} from "@/lib/mock-api";
+
+type MockApiSettingsPanelProps = {
+  // Endpoints the demo on this page calls
+  paths: MockPath[];
+  presets?: MockApiPreset[];
+};
+
+const inputClassName =
+  "w-20 rounded border border-zinc-300 bg-white px-1.5 py-0.5 text-right tabular-nums dark:border-zinc-600 dark:bg-zinc-800";
+
+// Lets a presenter make the demos slower, flakier or perfectly repeatable
+export const MockApiSettingsPanel = ({
+  paths,
+  presets = [],
+}: MockApiSettingsPanelProps) => {
+  const settings = useSyncExternalStore(
+    subscribeToMockApiSettings,
+    getMockApiSettings,
+    () => DEFAULT_MOCK_API_SETTINGS
+  );
+
+  const updateEndpoint = (
+    path: MockPath,
+    field: "latency" | "jitter",
+    value: number
+  ) =>
+    updateMockApiSettings({
+      endpoints: {
+        [path]: { ...settings.endpoints[path], [field]: Math.max(0, value) },
+      },
+    });
+
+  return (
+    <details className="mb-6 rounded-lg border border-zinc-200 bg-zinc-50 p-3 text-sm dark:border-zinc-700 dark:bg-zinc-900">
+      <summary className="cursor-pointer font-medium">Mock API settings</summary>
+
+      <table className="mt-3 w-full text-xs">
+        <thead>
+          <tr className="text-left text-zinc-500">
+            <th className="font-medium">Endpoint</th>
+            <th className="font-medium">Latency (ms)</th>
+            <th className="font-medium">± Jitter (ms)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {paths.map((path) => (
+            <tr key={path}>
+              <td className="py-0.5 font-mono">{path}</td>
+              <td className="py-0.5">
+                <input
+                  type="number"
+                  min={0}
+                  step={100}
+                  value={settings.endpoints[path].latency}
+                  onChange={(e) =>
+                    updateEndpoint(path, "latency", e.target.valueAsNumber || 0)
+                  }
+                  aria-label={`${path} latency`}
+                  className={inputClassName}
+                />
+              </td>
+              <td className="py-0.5">
+                <input
+                  type="number"
+                  min={0}
+                  step={100}
+                  value={settings.endpoints[path].jitter}
+                  onChange={(e) =>
+                    updateEndpoint(path, "jitter", e.target.valueAsNumber || 0)
+                  }
+                  aria-label={`${path} jitter`}
+                  className={inputClassName}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="mt-3 flex flex-wrap items-center gap-4 text-xs">
+        <label className="flex items-center gap-2">
+          <span>Failure rate</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.failureRate}
+            onChange={(e) =>
+              updateMockApiSettings({ failureRate: e.target.valueAsNumber })
+            }
+          />
+          <span className="w-8 tabular-nums">
+            {Math.round(settings.failureRate * 100)}%
+          </span>
+        </label>
+        <label className="flex items-center gap-2">
+          <span>Seed</span>
+          <input
+            type="number"
+            value={settings.seed}
+            onChange={(e) =>
+              updateMockApiSettings({ seed: e.target.valueAsNumber || 0 })
+            }
+            className={inputClassName}
+          />
+        </label>
+        <button
+          onClick={restartMockApiSequence}
+          className="rounded bg-zinc-200 px-2 py-1 hover:bg-zinc-300 dark:bg-zinc-700 dark:hover:bg-zinc-600"
+          title="Replay the same delays and failures from the first request"
+          type="button"
+        >
+          Restart sequence
+        </button>
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-2 text-xs">
+        {presets.map((preset) => (
+          <button
+            key={preset.label}
+            onClick={() => updateMockApiSettings({ endpoints: preset.endpoints })}
+            className="rounded bg-blue-100 px-2 py-1 text-blue-700 hover:bg-blue-200 dark:bg-blue-900/50 dark:text-blue-300 dark:hover:bg-blue-900"
+            type="button"
+          >
+            {preset.label}
+          </button>
+        ))}
+        <button
+          onClick={resetMockApiSettings}
+          className="rounded bg-zinc-200 px-2 py-1 hover:bg-zinc-300 dark:bg-zinc-700 dark:hover:bg-zinc-600"
+          type="button"
+        >
+          Defaults
+        </button>
+      </div>
+    </details>
+  );
+};
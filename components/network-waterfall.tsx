@@ -0,0 +1,146 @@
+"use client";
+
+import {
+  createContext,
+  useContext,
+  useState,
+  useSyncExternalStore,
+  type ReactNode,
+} from "react";
+import { useNow } from "@/hooks/use-now";
+import {
+  createRequestLog,
+  EMPTY_REQUEST_RECORDS,
+  type RequestLog,
+  type RequestRecord,
+  type RequestStatus,
+} from "@/lib/request-log";
+
+export const RequestLogContext = createContext<RequestLog | null>(null);
+
+const passThrough: RequestLog["track"] = (_label, request) => request;
+
+// Outside a RequestLogProvider requests simply aren't recorded
+export const useTrackRequest = () =>
+  useContext(RequestLogContext)?.track ?? passThrough;
+
+// ===========================================
+// PROVIDER: records a demo's requests and charts them below it
+// ===========================================
+
+export const RequestLogProvider = ({ children }: { children: ReactNode }) => {
+  const [log] = useState(createRequestLog);
+
+  return (
+    <RequestLogContext.Provider value={log}>
+      {children}
+      <NetworkWaterfall log={log} />
+    </RequestLogContext.Provider>
+  );
+};
+
+// ===========================================
+// WATERFALL CHART
+// ===========================================
+
+const barClassNames: Record<RequestStatus, string> = {
+  pending: "animate-pulse bg-blue-400",
+  done: "bg-emerald-500",
+  aborted: "bg-zinc-400 dark:bg-zinc-500",
+  error: "bg-red-500",
+};
+
+const statusLabels: Record<RequestStatus, string> = {
+  pending: "pending",
+  done: "done",
+  aborted: "aborted",
+  error: "failed",
+};
+
+const formatMs = (ms: number) => `${Math.round(ms)}ms`;
+
+export const NetworkWaterfall = ({ log }: { log: RequestLog }) => {
+  const records = useSyncExternalStore(
+    log.subscribe,
+    log.getRecords,
+    () => EMPTY_REQUEST_RECORDS
+  );
+  const now = useNow(records.some((record) => record.status === "pending"));
+
+  const endOf = (record: RequestRecord) =>
+    record.end ?? Math.max(now, record.start);
+  const origin = Math.min(...records.map((record) => record.start));
+  const span = Math.max(...records.map(endOf), origin + 1) - origin;
+  const toPercent = (ms: number) => `${(ms / span) * 100}%`;
+
+  return (
+    <div className="mt-4 rounded-lg border border-zinc-200 bg-white p-3 dark:border-zinc-700 dark:bg-zinc-900">
+      <div className="mb-2 flex items-center justify-between">
+        <h4 className="text-xs font-medium text-zinc-500">
+          Network ({records.length} requests
+          {records.length > 0 && `, ${formatMs(span)}`})
+        </h4>
+        {records.length > 0 && (
+          <button
+            onClick={log.clear}
+            className="rounded bg-zinc-100 px-2 py-0.5 text-xs text-zinc-500 hover:bg-zinc-200 dark:bg-zinc-800 dark:hover:bg-zinc-700"
+            type="button"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {records.length === 0 ? (
+        <p className="text-xs text-zinc-400">No requests yet</p>
+      ) : (
+        <div className="space-y-1">
+          {records.map((record) => {
+            const duration = endOf(record) - record.start;
+
+            return (
+              <div
+                key={record.id}
+                className="grid grid-cols-[7rem_1fr_5rem] items-center gap-2 text-xs"
+              >
+                <span className="truncate" title={record.label}>
+                  {record.label}
+                </span>
+                <div className="relative h-3 rounded bg-zinc-100 dark:bg-zinc-800">
+                  <div
+                    className={`absolute inset-y-0 min-w-0.5 rounded ${barClassNames[record.status]}`}
+                    style={{
+                      left: toPercent(record.start - origin),
+                      width: toPercent(duration),
+                    }}
+                    title={record.error ?? statusLabels[record.status]}
+                  />
+                </div>
+                <span
+                  className={`text-right tabular-nums ${
+                    record.status === "error"
+                      ? "text-red-500"
+                      : "text-zinc-500"
+                  }`}
+                >
+                  {record.status === "done"
+                    ? formatMs(duration)
+                    : statusLabels[record.status]}
+                </span>
+              </div>
+            );
+          })}
+
+          <div className="grid grid-cols-[7rem_1fr_5rem] gap-2 text-[10px] text-zinc-400">
+            <span />
+            <div className="flex justify-between tabular-nums">
+              <span>0ms</span>
+              <span>{formatMs(span / 2)}</span>
+              <span>{formatMs(span)}</span>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
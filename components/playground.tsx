@@ -0,0 +1,153 @@
+"use client";
+
+import React, { Component, useId, useMemo, useState, type ReactNode } from "react";
+import * as jsxRuntime from "react/jsx-runtime";
+import { RotateCcwIcon } from "lucide-react";
+import * as renderCounter from "@/components/render-counter";
+import {
+  CommitCounter,
+  RenderStatsPanel,
+} from "@/components/render-counter";
+import { compileSnippet, type SnippetModules } from "@/lib/compile-snippet";
+import { createRenderStatsStore } from "@/lib/render-stats";
+
+// Everything a runnable snippet can import
+const playgroundModules: SnippetModules = {
+  react: React,
+  "react/jsx-runtime": jsxRuntime,
+  "@/components/render-counter": renderCounter,
+};
+
+// ===========================================
+// PREVIEW ERROR BOUNDARY
+// ===========================================
+
+type PreviewBoundaryProps = {
+  children: ReactNode;
+};
+
+type PreviewBoundaryState = {
+  error: Error | null;
+};
+
+// Keeps a broken snippet from taking the chapter down with it. The preview
+// is keyed by its source, so every edit starts with a fresh boundary.
+class PreviewBoundary extends Component<
+  PreviewBoundaryProps,
+  PreviewBoundaryState
+> {
+  state: PreviewBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): PreviewBoundaryState {
+    return { error };
+  }
+
+  render() {
+    if (this.state.error) {
+      return (
+        <PlaygroundError
+          title="Runtime error"
+          message={this.state.error.message}
+        />
+      );
+    }
+
+    return this.props.children;
+  }
+}
+
+const PlaygroundError = ({
+  title,
+  message,
+}: {
+  title: string;
+  message: string;
+}) => (
+  <div
+    role="alert"
+    className="rounded-lg border border-red-300 bg-red-50 p-3 dark:border-red-700 dark:bg-red-900/20"
+  >
+    <p className="text-sm font-semibold text-red-700 dark:text-red-400">
+      {title}
+    </p>
+    <pre className="mt-1 whitespace-pre-wrap text-xs text-red-600 dark:text-red-500">
+      {message}
+    </pre>
+  </div>
+);
+
+// ===========================================
+// PLAYGROUND
+// ===========================================
+
+type PlaygroundProps = {
+  code: string;
+  fileName?: string;
+};
+
+const Playground = ({ code, fileName }: PlaygroundProps) => {
+  const original = code.trim();
+  const editorId = useId();
+  const [source, setSource] = useState(original);
+  // Bumped by "Reset" so the preview remounts even when the code is unchanged
+  const [version, setVersion] = useState(0);
+  const [stats] = useState(createRenderStatsStore);
+
+  const result = useMemo(
+    () => compileSnippet(source, playgroundModules),
+    [source]
+  );
+
+  const reset = () => {
+    setSource(original);
+    setVersion((v) => v + 1);
+    stats.reset();
+  };
+
+  return (
+    <div className="grid grid-cols-1 divide-y divide-zinc-200 dark:divide-zinc-800">
+      <div>
+        <div className="flex items-center justify-between px-4 py-1 text-xs text-muted-foreground">
+          <label htmlFor={editorId}>Edit {fileName ?? "snippet"}</label>
+          <button
+            onClick={reset}
+            className="inline-flex items-center gap-1 rounded px-2 py-0.5 hover:bg-zinc-200 focus-visible:outline-2 focus-visible:outline-zinc-400 dark:hover:bg-zinc-800 [&_svg]:size-3"
+            type="button"
+          >
+            <RotateCcwIcon />
+            Reset to original
+          </button>
+        </div>
+        <textarea
+          id={editorId}
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          spellCheck={false}
+          autoCapitalize="off"
+          autoCorrect="off"
+          rows={Math.min(source.split("\n").length + 1, 24)}
+          className="block w-full resize-y bg-transparent px-4 py-2 font-mono text-sm text-zinc-800 focus-visible:outline-2 focus-visible:outline-zinc-400 dark:text-zinc-200"
+        />
+      </div>
+      <div>
+        <RenderStatsPanel id="playground" store={stats}>
+          <div className="relative p-4">
+            {/* Render-count overlay for the whole preview */}
+            <div className="pointer-events-none absolute right-2 top-2 z-10">
+              <CommitCounter />
+            </div>
+            {result.ok ? (
+              <PreviewBoundary key={`${version}:${source}`}>
+                <result.Component />
+              </PreviewBoundary>
+            ) : (
+              <PlaygroundError title="Compile error" message={result.error} />
+            )}
+          </div>
+        </RenderStatsPanel>
+      </div>
+    </div>
+  );
+};
+
+export default Playground;
@@ -0,0 +1,213 @@
+"use client";
+
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useState,
+  useSyncExternalStore,
+  type ReactNode,
+} from "react";
+import { useNow } from "@/hooks/use-now";
+import {
+  createRaceTimeline,
+  type RaceRequest,
+  type RaceSnapshot,
+  type RaceTimeline,
+} from "@/lib/race-timeline";
+
+export const RaceTimelineContext = createContext<RaceTimeline | null>(null);
+
+type RaceRecorder = Pick<RaceTimeline, "select" | "track" | "display">;
+
+// Outside a RaceTimelineProvider nothing is recorded
+const detachedRecorder: RaceRecorder = {
+  select: () => {},
+  track: (_issueId, request) => request,
+  display: () => {},
+};
+
+export const useRaceTimeline = (): RaceRecorder =>
+  useContext(RaceTimelineContext) ?? detachedRecorder;
+
+// Call from the page with the issue it currently renders, null while loading
+export const useReportDisplayedIssue = (issueId: string | null) => {
+  const { display } = useRaceTimeline();
+
+  useEffect(() => {
+    display(issueId);
+  }, [display, issueId]);
+};
+
+// ===========================================
+// PROVIDER: records a demo's tabs, requests and renders
+// ===========================================
+
+type RaceTimelineProviderProps = {
+  // Tab selected when the demo mounts
+  initialId: string;
+  children: ReactNode;
+};
+
+export const RaceTimelineProvider = ({
+  initialId,
+  children,
+}: RaceTimelineProviderProps) => {
+  const [timeline] = useState(() => createRaceTimeline(initialId));
+
+  return (
+    <RaceTimelineContext.Provider value={timeline}>
+      {children}
+      <RaceTimelineChart timeline={timeline} />
+    </RaceTimelineContext.Provider>
+  );
+};
+
+// ===========================================
+// TIMELINE CHART
+// ===========================================
+
+const formatMs = (ms: number) => `+${Math.round(ms)}ms`;
+
+// The tab that was selected at a given moment
+const selectedAt = ({ selections }: RaceSnapshot, at: number) =>
+  selections.filter((selection) => selection.at <= at).at(-1)?.issueId ??
+  selections[0].issueId;
+
+const describeOutcome = (snapshot: RaceSnapshot, request: RaceRequest) => {
+  if (request.status !== "resolved") {
+    return request.status;
+  }
+  if (request.committedAt === null) {
+    return "ignored";
+  }
+  return request.stale
+    ? `stale! shown on tab ${selectedAt(snapshot, request.committedAt)}`
+    : "shown";
+};
+
+const barClassName = (request: RaceRequest) => {
+  if (request.status === "pending") {
+    return "animate-pulse bg-blue-400";
+  }
+  if (request.status === "aborted") {
+    return "bg-zinc-400 dark:bg-zinc-500";
+  }
+  if (request.status === "failed" || request.stale) {
+    return "bg-red-500";
+  }
+  return request.committedAt === null
+    ? "bg-zinc-300 dark:bg-zinc-600"
+    : "bg-emerald-500";
+};
+
+const RaceTimelineChart = ({ timeline }: { timeline: RaceTimeline }) => {
+  const snapshot = useSyncExternalStore(
+    timeline.subscribe,
+    timeline.getSnapshot,
+    timeline.getSnapshot
+  );
+  const { requests, selections, selectedId, displayedId } = snapshot;
+  const now = useNow(requests.some((request) => request.status === "pending"));
+
+  const origin = selections[0].at;
+  const marks = [
+    ...selections.map((selection) => selection.at),
+    ...requests.flatMap((request) => [
+      request.start,
+      request.end ?? Math.max(now, request.start),
+    ]),
+  ];
+  const span = Math.max(Math.max(...marks) - origin, 1);
+  const toPercent = (at: number) => `${((at - origin) / span) * 100}%`;
+  const isShowingWrongIssue = displayedId !== null && displayedId !== selectedId;
+
+  return (
+    <div className="mt-4 rounded-lg border border-zinc-200 bg-white p-3 dark:border-zinc-700 dark:bg-zinc-900">
+      <h4 className="mb-2 text-xs font-medium text-zinc-500">
+        Race timeline ({requests.length} requests)
+      </h4>
+
+      {isShowingWrongIssue && (
+        <p
+          role="alert"
+          className="mb-2 rounded bg-red-100 px-2 py-1 text-xs font-medium text-red-700 dark:bg-red-900/40 dark:text-red-300"
+        >
+          Showing Issue {displayedId}, but tab {selectedId} is selected
+        </p>
+      )}
+
+      <div className="space-y-1 text-xs">
+        {/* Tab clicks */}
+        <div className="grid grid-cols-[5rem_1fr_9rem] items-center gap-2">
+          <span className="text-zinc-500">Tabs</span>
+          <div className="relative h-4">
+            {selections.map((selection) => (
+              <span
+                key={selection.at}
+                className="absolute -translate-x-1/2 rounded bg-zinc-200 px-1 text-[10px] dark:bg-zinc-700"
+                style={{ left: toPercent(selection.at) }}
+              >
+                {selection.issueId}
+              </span>
+            ))}
+          </div>
+          <span className="text-zinc-500">selected: {selectedId}</span>
+        </div>
+
+        {requests.map((request) => {
+          const end = request.end ?? Math.max(now, request.start);
+
+          return (
+            <div
+              key={request.id}
+              className="grid grid-cols-[5rem_1fr_9rem] items-center gap-2"
+            >
+              <span className="truncate">
+                Issue {request.issueId}{" "}
+                <span className="text-zinc-400">#{request.id}</span>
+              </span>
+              <div className="relative h-3 rounded bg-zinc-100 dark:bg-zinc-800">
+                <div
+                  className={`absolute inset-y-0 min-w-0.5 rounded ${barClassName(request)}`}
+                  style={{
+                    left: toPercent(request.start),
+                    width: `calc(${toPercent(end)} - ${toPercent(request.start)})`,
+                  }}
+                  title={`${formatMs(request.start - origin)} → ${
+                    request.end === null ? "pending" : formatMs(request.end - origin)
+                  }`}
+                />
+                {request.committedAt !== null && (
+                  <div
+                    className={`absolute -inset-y-0.5 w-1 -translate-x-1/2 rounded ${
+                      request.stale ? "bg-red-700" : "bg-emerald-700"
+                    }`}
+                    style={{ left: toPercent(request.committedAt) }}
+                    title="Committed to state"
+                  />
+                )}
+              </div>
+              <span
+                className={`tabular-nums ${
+                  request.stale || request.status === "failed"
+                    ? "font-medium text-red-600 dark:text-red-400"
+                    : "text-zinc-500"
+                }`}
+              >
+                {describeOutcome(snapshot, request)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="mt-2 text-[10px] text-zinc-400">
+        <span className="text-emerald-500">■</span> shown{" "}
+        <span className="text-zinc-400">■</span> ignored or aborted{" "}
+        <span className="text-red-500">■</span> stale response shown on the
+        wrong tab
+      </p>
+    </div>
+  );
+};
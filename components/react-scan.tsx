@@ -1,17 +1,184 @@
 "use client";
 
-import { scan } from "react-scan";
-import { useEffect } from "react";
+import { scan, setOptions } from "react-scan";
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import {
+  DEFAULT_SCAN_SETTINGS,
+  getScanSettings,
+  subscribeToScanSettings,
+  updateScanSettings,
+  type ScanScope,
+} from "@/lib/scan-settings";
+
+const subscribeToNothing = () => () => {};
+
+// Production builds never scan unless the URL opts in with ?scan=1
+const getIsScanAllowed = () =>
+  process.env.NODE_ENV !== "production" ||
+  new URLSearchParams(window.location.search).get("scan") === "1";
+
+const getScanCanvas = () =>
+  document
+    .querySelector("[data-react-scan]")
+    ?.shadowRoot?.querySelector("canvas");
+
+// react-scan has no notion of scoping, it paints outlines on one fixed
+// full-viewport canvas. Clip that canvas to the chosen chapter half
+// (marked with data-scan-scope) so only its outlines stay visible.
+const useScanScope = (scope: ScanScope, enabled: boolean) => {
+  useEffect(() => {
+    if (!enabled || scope === "all") {
+      return;
+    }
+
+    let frame = 0;
+    const clip = () => {
+      const canvas = getScanCanvas();
+      const panel = document.querySelector(`[data-scan-scope="${scope}"]`);
+
+      if (canvas && panel) {
+        const rect = panel.getBoundingClientRect();
+        const top = Math.max(rect.top, 0);
+        const right = Math.max(window.innerWidth - rect.right, 0);
+        const bottom = Math.max(window.innerHeight - rect.bottom, 0);
+        const left = Math.max(rect.left, 0);
+        canvas.style.clipPath = `inset(${top}px ${right}px ${bottom}px ${left}px)`;
+      } else if (canvas) {
+        // Chosen half isn't on this page, hide every outline
+        canvas.style.clipPath = "inset(100%)";
+      }
+
+      // Panels move on scroll, resize and lazy loads, so follow every frame
+      frame = requestAnimationFrame(clip);
+    };
+    clip();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      const canvas = getScanCanvas();
+      if (canvas) {
+        canvas.style.clipPath = "";
+      }
+    };
+  }, [scope, enabled]);
+};
+
+const scopes: { value: ScanScope; label: string }[] = [
+  { value: "all", label: "Both" },
+  { value: "non-optimised", label: "Left" },
+  { value: "optimised", label: "Right" },
+];
 
 const ReactScan = () => {
+  const isAllowed = useSyncExternalStore(
+    subscribeToNothing,
+    getIsScanAllowed,
+    () => false
+  );
+  const settings = useSyncExternalStore(
+    subscribeToScanSettings,
+    getScanSettings,
+    () => DEFAULT_SCAN_SETTINGS
+  );
+  const [isOpen, setIsOpen] = useState(false);
+  const hasStartedRef = useRef(false);
+
   useEffect(() => {
-    scan({
-      enabled: true,
-    });
-  }, []);
+    if (!isAllowed) {
+      return;
+    }
+
+    const options = {
+      enabled: settings.enabled,
+      showFPS: settings.showFPS,
+      animationSpeed: settings.animations ? "fast" : "off",
+      // Only reachable in production through the ?scan=1 opt-in above
+      dangerouslyForceRunInProduction: true,
+    } as const;
 
-  return null;
+    // scan() refuses to start while disabled, so keep trying until it's on
+    if (!hasStartedRef.current && settings.enabled) {
+      scan(options);
+      hasStartedRef.current = true;
+    } else {
+      setOptions(options);
+    }
+  }, [isAllowed, settings]);
+
+  useScanScope(settings.scope, isAllowed && settings.enabled);
+
+  if (!isAllowed) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 text-xs">
+      {isOpen && (
+        <div
+          id="react-scan-controls"
+          className="mb-2 w-56 space-y-3 rounded-lg border border-zinc-200 bg-white p-3 shadow-lg dark:border-zinc-700 dark:bg-zinc-900"
+        >
+          <label className="flex items-center justify-between gap-2">
+            <span>Highlight renders</span>
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => updateScanSettings({ enabled: e.target.checked })}
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span>FPS meter</span>
+            <input
+              type="checkbox"
+              checked={settings.showFPS}
+              disabled={!settings.enabled}
+              onChange={(e) => updateScanSettings({ showFPS: e.target.checked })}
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span>Outline animations</span>
+            <input
+              type="checkbox"
+              checked={settings.animations}
+              disabled={!settings.enabled}
+              onChange={(e) =>
+                updateScanSettings({ animations: e.target.checked })
+              }
+            />
+          </label>
+          <fieldset disabled={!settings.enabled}>
+            <legend className="mb-1">Scan panel</legend>
+            <div className="flex gap-1">
+              {scopes.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => updateScanSettings({ scope: value })}
+                  aria-pressed={settings.scope === value}
+                  className={`flex-1 rounded px-2 py-1 disabled:opacity-50 ${
+                    settings.scope === value
+                      ? "bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900"
+                      : "bg-zinc-100 hover:bg-zinc-200 dark:bg-zinc-800 dark:hover:bg-zinc-700"
+                  }`}
+                  type="button"
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </fieldset>
+        </div>
+      )}
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        aria-controls="react-scan-controls"
+        className="rounded-full border border-zinc-200 bg-white px-3 py-1.5 font-medium shadow dark:border-zinc-700 dark:bg-zinc-900"
+        type="button"
+      >
+        React Scan: {settings.enabled ? "on" : "off"}
+      </button>
+    </div>
+  );
 };
 
 export default ReactScan;
-
@@ -0,0 +1,129 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import {
+  diffState,
+  type DevtoolsEntry,
+  type ReducerDevtools,
+} from "@/lib/reducer-middleware";
+
+const formatValue = (value: unknown) => JSON.stringify(value) ?? "undefined";
+
+const formatTime = (entry: DevtoolsEntry<unknown, unknown>, origin: number) =>
+  `+${Math.round(entry.at - origin)}ms`;
+
+// Everything but the type, e.g. `link: "Link 2"`
+const formatPayload = (action: { type: string }) =>
+  Object.entries(action)
+    .filter(([key]) => key !== "type")
+    .map(([key, value]) => `${key}: ${formatValue(value)}`)
+    .join(", ");
+
+type ReducerDevtoolsPanelProps<State, Action extends { type: string }> = {
+  devtools: ReducerDevtools<State, Action>;
+  // Heading, e.g. "Navigation"
+  name: string;
+};
+
+export const ReducerDevtoolsPanel = <State, Action extends { type: string }>({
+  devtools,
+  name,
+}: ReducerDevtoolsPanelProps<State, Action>) => {
+  const { entries, currentIndex, isAttached } = useSyncExternalStore(
+    devtools.subscribe,
+    devtools.getSnapshot,
+    devtools.getSnapshot
+  );
+  const origin = entries[0]?.at ?? 0;
+
+  return (
+    <div className="mt-4 rounded-lg border border-zinc-200 bg-white p-3 dark:border-zinc-700 dark:bg-zinc-900">
+      <div className="mb-2 flex items-center justify-between">
+        <h4 className="text-xs font-medium text-zinc-500">
+          {name} actions ({Math.max(entries.length - 1, 0)})
+        </h4>
+        <button
+          onClick={devtools.reset}
+          disabled={!isAttached}
+          className="rounded bg-zinc-100 px-2 py-0.5 text-xs text-zinc-500 hover:bg-zinc-200 disabled:opacity-50 dark:bg-zinc-800 dark:hover:bg-zinc-700"
+          type="button"
+        >
+          Clear
+        </button>
+      </div>
+
+      {!isAttached ? (
+        <p className="text-xs text-zinc-400">Waiting for the provider…</p>
+      ) : (
+        <ol className="space-y-1 text-xs">
+          {entries.map((entry, index) => {
+            const diff = diffState(entry.before, entry.after);
+            const isCurrent = index === currentIndex;
+            // Undone by a jump back, dropped by the next action
+            const isAhead = index > currentIndex;
+
+            return (
+              <li
+                key={entry.id}
+                className={`grid grid-cols-[4rem_1fr_auto] items-start gap-2 rounded px-2 py-1 ${
+                  isCurrent
+                    ? "bg-emerald-50 ring-1 ring-emerald-500/50 dark:bg-emerald-900/20"
+                    : ""
+                } ${isAhead ? "opacity-40" : ""}`}
+              >
+                <span className="tabular-nums text-zinc-400">
+                  {formatTime(entry, origin)}
+                </span>
+                <div className="min-w-0">
+                  <div className="font-mono">
+                    {entry.action === null ? (
+                      <span className="text-zinc-400">initial state</span>
+                    ) : (
+                      <>
+                        {entry.action.type}
+                        {formatPayload(entry.action) && (
+                          <span className="text-zinc-400">
+                            {" "}
+                            {formatPayload(entry.action)}
+                          </span>
+                        )}
+                      </>
+                    )}
+                  </div>
+                  {entry.action === null ? (
+                    <div className="truncate font-mono text-zinc-500">
+                      {formatValue(entry.after)}
+                    </div>
+                  ) : diff.length === 0 ? (
+                    <div className="text-zinc-400">no change</div>
+                  ) : (
+                    diff.map(({ key, before, after }) => (
+                      <div key={key} className="font-mono text-zinc-500">
+                        {key && `${key}: `}
+                        <span className="text-red-500 line-through">
+                          {formatValue(before)}
+                        </span>{" "}
+                        →{" "}
+                        <span className="text-emerald-600 dark:text-emerald-400">
+                          {formatValue(after)}
+                        </span>
+                      </div>
+                    ))
+                  )}
+                </div>
+                <button
+                  onClick={() => devtools.jumpTo(index)}
+                  disabled={isCurrent}
+                  className="rounded bg-zinc-100 px-2 py-0.5 text-zinc-600 hover:bg-zinc-200 disabled:cursor-default disabled:bg-transparent disabled:text-emerald-600 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700 dark:disabled:bg-transparent dark:disabled:text-emerald-400"
+                  type="button"
+                >
+                  {isCurrent ? "current" : "Jump"}
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+"use client";
+
+import {
+  createContext,
+  Profiler,
+  useContext,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  type ComponentType,
+  type ReactNode,
+} from "react";
+import {
+  createRenderStatsStore,
+  type RenderStats,
+  type RenderStatsStore,
+} from "@/lib/render-stats";
+
+// Components rendered outside a panel still get counted, in a shared store
+const RenderStatsContext = createContext<RenderStatsStore>(
+  createRenderStatsStore()
+);
+
+// ===========================================
+// HOOK + HOC: count committed renders, time them with a Profiler
+// ===========================================
+
+// Call at the top of the component. It only counts: the duration comes from
+// the Profiler that withRenderTiming puts around the component.
+export const useRenderCount = (name: string) => {
+  const store = useContext(RenderStatsContext);
+  // A new object every render, so the effect can tell renders apart
+  const render = {};
+  const lastCommittedRef = useRef<object | null>(null);
+
+  useLayoutEffect(() => {
+    // StrictMode re-runs effects for the same commit, only count it once
+    if (lastCommittedRef.current === render) {
+      return;
+    }
+    lastCommittedRef.current = render;
+    store.record(name);
+  });
+};
+
+// The Profiler's onRender runs after the component's layout effects in the
+// same commit, so its timing lands on the render useRenderCount just counted.
+export const withRenderTiming = <P extends object>(
+  // Same name the component passes to useRenderCount
+  name: string | ((props: NoInfer<P>) => string),
+  Component: ComponentType<P>
+) => {
+  const TimedComponent = (props: P) => {
+    const store = useContext(RenderStatsContext);
+    const id = typeof name === "function" ? name(props) : name;
+
+    return (
+      <Profiler
+        id={id}
+        onRender={(_id, _phase, actualDuration) =>
+          store.recordDuration(id, actualDuration)
+        }
+      >
+        <Component {...props} />
+      </Profiler>
+    );
+  };
+
+  TimedComponent.displayName = `withRenderTiming(${
+    Component.displayName || Component.name || "Component"
+  })`;
+  return TimedComponent;
+};
+
+// ===========================================
+// BADGE: live render count for one component
+// ===========================================
+
+const formatStats = ({ count, lastDuration }: RenderStats) =>
+  `${count} ${count === 1 ? "render" : "renders"}` +
+  (lastDuration === null ? "" : ` · last ${lastDuration.toFixed(1)}ms`);
+
+// The text is written straight to the DOM instead of through state: a state
+// update would be a React commit of its own and show up in the panel's
+// Profiler numbers, measuring the badge instead of the demo.
+export const RenderCounter = ({ name }: { name: string }) => {
+  const store = useContext(RenderStatsContext);
+  const textRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    const update = () => {
+      if (textRef.current) {
+        textRef.current.textContent = formatStats(store.getStats(name));
+      }
+    };
+
+    update();
+    return store.subscribe(update);
+  }, [store, name]);
+
+  return (
+    <span
+      ref={textRef}
+      className="inline-flex items-center rounded-full border border-zinc-300 bg-white px-2 py-0.5 font-mono text-xs text-zinc-600 dark:border-zinc-600 dark:bg-zinc-900 dark:text-zinc-300"
+      aria-live="polite"
+    />
+  );
+};
+
+// Same as RenderCounter, for the commits the enclosing panel has profiled
+export const CommitCounter = () => {
+  const store = useContext(RenderStatsContext);
+  const textRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    const update = () => {
+      const { commits } = store.getMetrics();
+      if (textRef.current) {
+        textRef.current.textContent = `${commits} ${
+          commits === 1 ? "commit" : "commits"
+        }`;
+      }
+    };
+
+    update();
+    return store.subscribe(update);
+  }, [store]);
+
+  return (
+    <span
+      ref={textRef}
+      className="inline-flex items-center rounded-full border border-zinc-300 bg-white px-2 py-0.5 font-mono text-xs text-zinc-600 dark:border-zinc-600 dark:bg-zinc-900 dark:text-zinc-300"
+    />
+  );
+};
+
+// ===========================================
+// PANEL: scopes counters, profiles commits and offers a reset
+// ===========================================
+
+type RenderStatsPanelProps = {
+  // Profiler id, e.g. "optimised"
+  id: string;
+  store: RenderStatsStore;
+  children: ReactNode;
+};
+
+export const RenderStatsPanel = ({
+  id,
+  store,
+  children,
+}: RenderStatsPanelProps) => {
+  return (
+    <RenderStatsContext.Provider value={store}>
+      <div className="flex items-center justify-end gap-2 border-b border-zinc-200 px-8 py-2 text-xs text-muted-foreground dark:border-zinc-800">
+        <span>Render counters</span>
+        <button
+          onClick={store.reset}
+          className="rounded px-2 py-0.5 hover:bg-zinc-200 dark:hover:bg-zinc-800"
+          type="button"
+        >
+          Reset
+        </button>
+      </div>
+      {/* Every click or key press in the panel starts a new interaction */}
+      <div
+        onPointerDownCapture={store.startInteraction}
+        onKeyDownCapture={store.startInteraction}
+      >
+        <Profiler
+          id={id}
+          onRender={(_id, _phase, actualDuration) =>
+            store.recordCommit(actualDuration)
+          }
+        >
+          {children}
+        </Profiler>
+      </div>
+    </RenderStatsContext.Provider>
+  );
+};
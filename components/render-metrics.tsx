@@ -0,0 +1,74 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import {
+  EMPTY_PANEL_METRICS,
+  type PanelMetrics,
+  type RenderStatsStore,
+} from "@/lib/render-stats";
+
+const usePanelMetrics = (store: RenderStatsStore) =>
+  useSyncExternalStore(
+    store.subscribe,
+    store.getMetrics,
+    () => EMPTY_PANEL_METRICS
+  );
+
+const rows: { label: string; format: (metrics: PanelMetrics) => string }[] = [
+  { label: "Commits", format: (m) => `${m.commits}` },
+  { label: "Total render time", format: (m) => `${m.totalDuration.toFixed(1)}ms` },
+  { label: "Slowest commit", format: (m) => `${m.maxCommitDuration.toFixed(1)}ms` },
+  {
+    label: "Components rendered (last interaction)",
+    format: (m) => `${m.interactionRenders}`,
+  },
+];
+
+type RenderMetricsComparisonProps = {
+  nonOptimised: RenderStatsStore;
+  optimised: RenderStatsStore;
+};
+
+// Strip above the chapter grid comparing the Profiler numbers of both halves
+const RenderMetricsComparison = ({
+  nonOptimised,
+  optimised,
+}: RenderMetricsComparisonProps) => {
+  const before = usePanelMetrics(nonOptimised);
+  const after = usePanelMetrics(optimised);
+
+  return (
+    <div className="border-b border-zinc-200 bg-white px-8 py-3 dark:border-zinc-800 dark:bg-zinc-900">
+      <table className="w-full text-xs">
+        <caption className="sr-only">Render metrics comparison</caption>
+        <thead>
+          <tr className="text-left text-muted-foreground">
+            <th className="py-1 font-medium">Profiler</th>
+            <th className="py-1 font-medium text-red-600 dark:text-red-400">
+              Non-optimised
+            </th>
+            <th className="py-1 font-medium text-emerald-600 dark:text-emerald-400">
+              Optimised
+            </th>
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {rows.map(({ label, format }) => (
+            <tr key={label}>
+              <td className="py-0.5 font-sans text-muted-foreground">{label}</td>
+              <td className="py-0.5">{format(before)}</td>
+              <td className="py-0.5">{format(after)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {process.env.NODE_ENV === "production" && (
+        <p className="mt-2 text-xs text-muted-foreground">
+          React only reports Profiler timings in development builds.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RenderMetricsComparison;
@@ -0,0 +1,54 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CheckIcon, LinkIcon } from "lucide-react";
+
+type SectionLinkProps = {
+  // id of the heading this link points to
+  id: string;
+};
+
+// "Copy link to this demo" control rendered next to a section heading
+const SectionLink = ({ id }: SectionLinkProps) => {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) {
+      return;
+    }
+
+    const timeout = setTimeout(() => setCopied(false), 1500);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    const url = `${window.location.origin}${window.location.pathname}#${id}`;
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      // Clipboard can be unavailable (insecure context, denied permission),
+      // fall back to putting the link in the address bar
+      window.location.hash = id;
+    }
+  };
+
+  return (
+    <button
+      onClick={handleCopy}
+      className="ml-2 inline-flex size-6 items-center justify-center rounded align-middle text-zinc-400 transition-colors hover:bg-zinc-200 hover:text-zinc-700 dark:hover:bg-zinc-700 dark:hover:text-zinc-200"
+      aria-label={copied ? "Link copied" : "Copy link to this demo"}
+      title={copied ? "Link copied" : "Copy link to this demo"}
+      type="button"
+    >
+      {copied ? (
+        <CheckIcon className="size-3.5 text-emerald-500" />
+      ) : (
+        <LinkIcon className="size-3.5" />
+      )}
+    </button>
+  );
+};
+
+export default SectionLink;
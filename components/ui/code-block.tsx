@@ -1,19 +1,103 @@
-import React from "react";
+"use client";
+
+import React, { lazy, Suspense, useEffect, useState } from "react";
+import {
+  CheckIcon,
+  CopyIcon,
+  PlayIcon,
+  WrapTextIcon,
+  XIcon,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
+import {
+  normalizeLanguage,
+  parseLineRanges,
+  tokenize,
+  type TokenType,
+} from "@/lib/highlight";
+
+// The compiler only downloads once a reader actually runs a snippet
+const Playground = lazy(() => import("@/components/playground"));
 
 interface CodeBlockProps extends React.HTMLAttributes<HTMLDivElement> {
   code: string;
   fileName?: string;
   language?: string;
+  // 1-based lines to emphasise, e.g. "3-5,9"
+  highlightLines?: string;
+  showLineNumbers?: boolean;
+  // Collapse longer snippets to this many lines behind a "Show more" toggle
+  maxLines?: number;
+  // Self-contained snippet with a default export that readers can edit and run
+  runnable?: boolean;
 }
 
+type CopyStatus = "idle" | "copied" | "failed";
+
+export const tokenClassNames: Record<TokenType, string> = {
+  plain: "",
+  comment: "italic text-zinc-400 dark:text-zinc-500",
+  string: "text-emerald-700 dark:text-emerald-400",
+  keyword: "text-purple-600 dark:text-purple-400",
+  number: "text-amber-600 dark:text-amber-400",
+  function: "text-blue-600 dark:text-blue-400",
+  tag: "text-rose-600 dark:text-rose-400",
+  attr: "text-sky-600 dark:text-sky-300",
+  property: "text-cyan-700 dark:text-cyan-400",
+  variable: "text-orange-600 dark:text-orange-400",
+  punctuation: "text-zinc-500 dark:text-zinc-400",
+};
+
+const copyAnnouncements: Record<CopyStatus, string> = {
+  idle: "",
+  copied: "Code copied to clipboard",
+  failed: "Could not copy code",
+};
+
+const toolbarButtonClassName =
+  "inline-flex size-7 items-center justify-center rounded text-muted-foreground transition-colors hover:bg-zinc-200 hover:text-zinc-900 focus-visible:outline-2 focus-visible:outline-zinc-400 dark:hover:bg-zinc-800 dark:hover:text-zinc-100 [&_svg]:size-3.5";
+
 export function CodeBlock({
   code,
   fileName,
-  language = "typescript",
+  language = "tsx",
+  highlightLines,
+  showLineNumbers = false,
+  maxLines,
+  runnable = false,
   className,
   ...props
 }: CodeBlockProps) {
+  const [copyStatus, setCopyStatus] = useState<CopyStatus>("idle");
+  const [isWrapped, setIsWrapped] = useState(false);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const source = code.trim();
+  const lines = tokenize(source, normalizeLanguage(language));
+  const highlighted = parseLineRanges(highlightLines, lines.length);
+  const isCollapsible = maxLines !== undefined && lines.length > maxLines;
+  const visibleLines =
+    isCollapsible && !isExpanded ? lines.slice(0, maxLines) : lines;
+
+  useEffect(() => {
+    if (copyStatus === "idle") {
+      return;
+    }
+
+    const timeout = setTimeout(() => setCopyStatus("idle"), 2000);
+    return () => clearTimeout(timeout);
+  }, [copyStatus]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(source);
+      setCopyStatus("copied");
+    } catch {
+      setCopyStatus("failed");
+    }
+  };
+
   return (
     <div
       className={cn(
@@ -22,17 +106,123 @@ export function CodeBlock({
       )}
       {...props}
     >
-      {fileName && (
-        <div className="border-b border-zinc-200 px-4 py-2 text-xs font-medium text-muted-foreground dark:border-zinc-800">
+      <div className="flex items-center gap-1 border-b border-zinc-200 py-1 pl-4 pr-2 dark:border-zinc-800">
+        <span className="flex-1 truncate text-xs font-medium text-muted-foreground">
           {fileName}
+        </span>
+        {runnable && (
+          <button
+            onClick={() => setIsRunning((running) => !running)}
+            className={cn(
+              toolbarButtonClassName,
+              isRunning && "bg-zinc-200 dark:bg-zinc-800"
+            )}
+            aria-label="Run in playground"
+            aria-pressed={isRunning}
+            title="Run in playground"
+            type="button"
+          >
+            <PlayIcon />
+          </button>
+        )}
+        <button
+          onClick={() => setIsWrapped((wrapped) => !wrapped)}
+          className={cn(
+            toolbarButtonClassName,
+            isWrapped && "bg-zinc-200 dark:bg-zinc-800"
+          )}
+          aria-label="Wrap long lines"
+          aria-pressed={isWrapped}
+          title="Wrap long lines"
+          type="button"
+        >
+          <WrapTextIcon />
+        </button>
+        <button
+          onClick={handleCopy}
+          className={toolbarButtonClassName}
+          aria-label="Copy code"
+          title="Copy code"
+          type="button"
+        >
+          {copyStatus === "copied" ? (
+            <CheckIcon className="text-emerald-500" />
+          ) : copyStatus === "failed" ? (
+            <XIcon className="text-red-500" />
+          ) : (
+            <CopyIcon />
+          )}
+        </button>
+        <span role="status" className="sr-only">
+          {copyAnnouncements[copyStatus]}
+        </span>
+      </div>
+      {isRunning ? (
+        <Suspense
+          fallback={
+            <p className="px-4 py-4 text-sm text-muted-foreground">
+              Loading playground...
+            </p>
+          }
+        >
+          <Playground code={source} fileName={fileName} />
+        </Suspense>
+      ) : (
+        <div className={cn("py-4", !isWrapped && "overflow-x-auto")}>
+          <pre className="text-sm font-mono text-zinc-800 dark:text-zinc-200">
+            <code className={cn("block", !isWrapped && "min-w-max")}>
+              {visibleLines.map((tokens, index) => (
+                <span
+                  key={index}
+                  className={cn(
+                    "flex border-l-2 border-transparent px-4",
+                    highlighted.has(index + 1) &&
+                      "border-amber-500 bg-amber-500/10 dark:bg-amber-400/10"
+                  )}
+                >
+                  {showLineNumbers && (
+                    <span
+                      className="w-8 shrink-0 select-none pr-4 text-right text-zinc-400 dark:text-zinc-600"
+                      aria-hidden="true"
+                    >
+                      {index + 1}
+                    </span>
+                  )}
+                  <span
+                    className={cn(
+                      "min-w-0",
+                      isWrapped && "whitespace-pre-wrap break-all"
+                    )}
+                  >
+                    {tokens.map((token, tokenIndex) => (
+                      <span
+                        key={tokenIndex}
+                        className={tokenClassNames[token.type]}
+                      >
+                        {token.content}
+                      </span>
+                    ))}
+                    {/* Keep empty lines one line tall */}
+                    {tokens.length === 0 && " "}
+                  </span>
+                </span>
+              ))}
+            </code>
+          </pre>
         </div>
       )}
-      <div className="overflow-x-auto p-4">
-        <pre className="text-sm font-mono text-zinc-800 dark:text-zinc-200">
-          <code>{code.trim()}</code>
-        </pre>
-      </div>
+      {isCollapsible && !isRunning && (
+        <button
+          onClick={() => setIsExpanded((expanded) => !expanded)}
+          className="w-full border-t border-zinc-200 py-1.5 text-xs font-medium text-muted-foreground hover:bg-zinc-100 hover:text-zinc-900 focus-visible:outline-2 focus-visible:outline-zinc-400 dark:border-zinc-800 dark:hover:bg-zinc-900 dark:hover:text-zinc-100"
+          aria-expanded={isExpanded}
+          type="button"
+        >
+          {isExpanded
+            ? "Show less"
+            : `Show more (${lines.length - visibleLines.length} more lines)`}
+        </button>
+      )}
     </div>
   );
 }
-
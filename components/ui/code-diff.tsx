@@ -0,0 +1,202 @@
+"use client";
+
+import React, { useState } from "react";
+import { cn } from "@/lib/utils";
+import { diffLines, toSplitRows, type DiffLine } from "@/lib/diff";
+import { normalizeLanguage, tokenize, type Token } from "@/lib/highlight";
+import { tokenClassNames } from "@/components/ui/code-block";
+
+type DiffMode = "unified" | "split";
+
+interface CodeDiffProps extends React.HTMLAttributes<HTMLDivElement> {
+  before: string;
+  after: string;
+  beforeFileName?: string;
+  afterFileName?: string;
+  language?: string;
+  defaultMode?: DiffMode;
+}
+
+const lineClassNames: Record<DiffLine["type"], string> = {
+  context: "border-transparent",
+  added: "border-emerald-500 bg-emerald-500/10 dark:bg-emerald-400/10",
+  removed: "border-red-500 bg-red-500/10 dark:bg-red-400/10",
+};
+
+const linePrefixes: Record<DiffLine["type"], string> = {
+  context: " ",
+  added: "+",
+  removed: "-",
+};
+
+const modes: { value: DiffMode; label: string }[] = [
+  { value: "unified", label: "Unified" },
+  { value: "split", label: "Split" },
+];
+
+const DiffTokens = ({ tokens }: { tokens: Token[] }) => (
+  <>
+    {tokens.map((token, index) => (
+      <span key={index} className={tokenClassNames[token.type]}>
+        {token.content}
+      </span>
+    ))}
+    {/* Keep empty lines one line tall */}
+    {tokens.length === 0 && " "}
+  </>
+);
+
+const DiffRow = ({
+  line,
+  tokens,
+  lineNumbers,
+}: {
+  line: DiffLine | null;
+  tokens: Token[];
+  lineNumbers: (number | undefined)[];
+}) => {
+  if (!line) {
+    // Filler so both split columns keep the same rows
+    return (
+      <span className="block border-l-2 border-transparent bg-zinc-100 px-4 dark:bg-zinc-900">
+        {" "}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={cn("flex border-l-2 pr-4", lineClassNames[line.type])}
+    >
+      {lineNumbers.map((lineNumber, index) => (
+        <span
+          key={index}
+          className="w-8 shrink-0 select-none pr-2 text-right text-zinc-400 dark:text-zinc-600"
+          aria-hidden="true"
+        >
+          {lineNumber}
+        </span>
+      ))}
+      <span
+        className="w-6 shrink-0 select-none text-center text-zinc-400 dark:text-zinc-500"
+        aria-hidden="true"
+      >
+        {linePrefixes[line.type]}
+      </span>
+      <span className="sr-only">
+        {line.type === "context" ? "" : `${line.type}: `}
+      </span>
+      <span>
+        <DiffTokens tokens={tokens} />
+      </span>
+    </span>
+  );
+};
+
+export function CodeDiff({
+  before,
+  after,
+  beforeFileName,
+  afterFileName,
+  language = "tsx",
+  defaultMode = "unified",
+  className,
+  ...props
+}: CodeDiffProps) {
+  const [mode, setMode] = useState<DiffMode>(defaultMode);
+
+  const beforeSource = before.trim();
+  const afterSource = after.trim();
+  const lines = diffLines(beforeSource, afterSource);
+  // Highlight each side whole so multi-line comments and strings stay intact
+  const beforeTokens = tokenize(beforeSource, normalizeLanguage(language));
+  const afterTokens = tokenize(afterSource, normalizeLanguage(language));
+
+  const splitRows = toSplitRows(lines);
+
+  const getTokens = (
+    line: DiffLine,
+    side = line.type === "removed" ? "before" : "after"
+  ) =>
+    side === "before"
+      ? beforeTokens[(line.beforeLine ?? 1) - 1]
+      : afterTokens[(line.afterLine ?? 1) - 1];
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg border border-zinc-200 bg-zinc-50 dark:border-zinc-800 dark:bg-zinc-950",
+        className
+      )}
+      {...props}
+    >
+      <div className="flex items-center gap-2 border-b border-zinc-200 py-1 pl-4 pr-2 dark:border-zinc-800">
+        <span className="flex-1 truncate text-xs font-medium text-muted-foreground">
+          {beforeFileName && afterFileName && beforeFileName !== afterFileName
+            ? `${beforeFileName} → ${afterFileName}`
+            : (afterFileName ?? beforeFileName)}
+        </span>
+        <div className="flex gap-1" role="group" aria-label="Diff layout">
+          {modes.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              aria-pressed={mode === value}
+              className={cn(
+                "rounded px-2 py-0.5 text-xs focus-visible:outline-2 focus-visible:outline-zinc-400",
+                mode === value
+                  ? "bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900"
+                  : "text-muted-foreground hover:bg-zinc-200 dark:hover:bg-zinc-800"
+              )}
+              type="button"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {mode === "unified" ? (
+        <div className="overflow-x-auto py-4">
+          <pre className="text-sm font-mono text-zinc-800 dark:text-zinc-200">
+            <code className="block min-w-max">
+              {lines.map((line, index) => (
+                <DiffRow
+                  key={index}
+                  line={line}
+                  tokens={getTokens(line)}
+                  lineNumbers={[line.beforeLine, line.afterLine]}
+                />
+              ))}
+            </code>
+          </pre>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 divide-x divide-zinc-200 dark:divide-zinc-800">
+          {(["before", "after"] as const).map((side) => (
+            <div key={side} className="overflow-x-auto py-4">
+              <pre className="text-sm font-mono text-zinc-800 dark:text-zinc-200">
+                <code className="block min-w-max" aria-label={side}>
+                  {splitRows.map((row, index) => {
+                    const line = row[side];
+                    return (
+                      <DiffRow
+                        key={index}
+                        line={line}
+                        tokens={line ? getTokens(line, side) : []}
+                        lineNumbers={[
+                          side === "before"
+                            ? line?.beforeLine
+                            : line?.afterLine,
+                        ]}
+                      />
+                    );
+                  })}
+                </code>
+              </pre>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
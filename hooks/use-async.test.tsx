@@ -0,0 +1,128 @@
+// @vitest-environment jsdom
+import { act, renderHook } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { useAsync } from "@/hooks/use-async";
+
+// A loader whose runs each wait for the test to settle them
+const createLoader = () => {
+  const runs: {
+    id: string;
+    signal: AbortSignal;
+    resolve: (value: string) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+  const load = vi.fn(
+    (id: string, signal: AbortSignal) =>
+      new Promise<string>((resolve, reject) => {
+        runs.push({ id, signal, resolve, reject });
+      })
+  );
+  return { load, runs };
+};
+
+const renderAsync = (
+  load: (id: string, signal: AbortSignal) => Promise<string>,
+  options?: { keepPreviousData?: boolean }
+) =>
+  renderHook(
+    ({ id }) => useAsync((signal) => load(id, signal), [id], options),
+    { initialProps: { id: "1" } }
+  );
+
+describe("useAsync", () => {
+  it("starts pending and keeps the result", async () => {
+    const { load, runs } = createLoader();
+    const { result } = renderAsync(load);
+    expect(result.current).toMatchObject({ status: "pending", data: undefined });
+
+    await act(async () => runs[0].resolve("issue 1"));
+    expect(result.current).toMatchObject({
+      status: "success",
+      data: "issue 1",
+      error: null,
+    });
+  });
+
+  it("drops a result that arrives after the deps changed", async () => {
+    const { load, runs } = createLoader();
+    const { result, rerender } = renderAsync(load);
+
+    rerender({ id: "2" });
+    await act(async () => runs[1].resolve("issue 2"));
+    // The slow first request lands last
+    await act(async () => runs[0].resolve("issue 1"));
+
+    expect(result.current.data).toBe("issue 2");
+  });
+
+  it("aborts the previous run when the deps change, and on unmount", () => {
+    const { load, runs } = createLoader();
+    const { rerender, unmount } = renderAsync(load);
+
+    rerender({ id: "2" });
+    expect(runs[0].signal.aborted).toBe(true);
+    expect(runs[1].signal.aborted).toBe(false);
+
+    unmount();
+    expect(runs[1].signal.aborted).toBe(true);
+  });
+
+  it("keeps showing the previous data while the next run loads", async () => {
+    const { load, runs } = createLoader();
+    const { result, rerender } = renderAsync(load, { keepPreviousData: true });
+    await act(async () => runs[0].resolve("issue 1"));
+
+    rerender({ id: "2" });
+    expect(result.current).toMatchObject({
+      status: "pending",
+      data: "issue 1",
+    });
+
+    await act(async () => runs[1].resolve("issue 2"));
+    expect(result.current).toMatchObject({ status: "success", data: "issue 2" });
+  });
+
+  it("clears the previous data while loading by default", async () => {
+    const { load, runs } = createLoader();
+    const { result, rerender } = renderAsync(load);
+    await act(async () => runs[0].resolve("issue 1"));
+
+    rerender({ id: "2" });
+    expect(result.current).toMatchObject({ status: "pending", data: undefined });
+  });
+
+  it("sets the error state when the run fails", async () => {
+    const { load, runs } = createLoader();
+    const { result } = renderAsync(load);
+
+    await act(async () => runs[0].reject(new Error("500")));
+    expect(result.current).toMatchObject({
+      status: "error",
+      data: undefined,
+      error: new Error("500"),
+    });
+  });
+
+  it("ignores the failure of a run that was superseded", async () => {
+    const { load, runs } = createLoader();
+    const { result, rerender } = renderAsync(load);
+
+    rerender({ id: "2" });
+    await act(async () => runs[0].reject(new Error("aborted")));
+    expect(result.current.status).toBe("pending");
+  });
+
+  it("runs the loader again on reload", async () => {
+    const { load, runs } = createLoader();
+    const { result } = renderAsync(load);
+    await act(async () => runs[0].reject(new Error("500")));
+
+    act(() => result.current.reload());
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(runs[1].id).toBe("1");
+    expect(result.current.status).toBe("pending");
+
+    await act(async () => runs[1].resolve("issue 1"));
+    expect(result.current).toMatchObject({ status: "success", data: "issue 1" });
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type DependencyList,
+} from "react";
+
+export type AsyncStatus = "pending" | "success" | "error";
+
+export type AsyncState<T> = {
+  status: AsyncStatus;
+  // With keepPreviousData, the last result stays here while the next loads
+  data: T | undefined;
+  error: Error | null;
+};
+
+export type UseAsyncOptions = {
+  keepPreviousData?: boolean;
+};
+
+const toError = (error: unknown) =>
+  error instanceof Error ? error : new Error(String(error));
+
+const areDepsEqual = (prev: DependencyList, next: DependencyList) =>
+  prev.length === next.length &&
+  prev.every((value, index) => Object.is(value, next[index]));
+
+// #region use-async
+/**
+ * Run `fn` whenever `deps` change and track its result. Only the latest run
+ * can update state: older runs are aborted through the signal passed to `fn`,
+ * and their results are dropped even if `fn` ignores the signal.
+ */
+export const useAsync = <T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  deps: DependencyList,
+  { keepPreviousData = false }: UseAsyncOptions = {}
+) => {
+  const fnRef = useRef(fn);
+  const [run, setRun] = useState({ id: 0, deps });
+  const [state, setState] = useState<AsyncState<T>>({
+    status: "pending",
+    data: undefined,
+    error: null,
+  });
+
+  useEffect(() => {
+    fnRef.current = fn;
+  });
+
+  const toPending = useCallback(
+    (current: AsyncState<T>): AsyncState<T> => ({
+      status: "pending",
+      data: keepPreviousData ? current.data : undefined,
+      error: null,
+    }),
+    [keepPreviousData]
+  );
+
+  // New deps start a new run in this render, so a stale result never paints
+  if (!areDepsEqual(run.deps, deps)) {
+    setRun({ id: run.id + 1, deps });
+    setState(toPending);
+  }
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let isActive = true;
+
+    fnRef.current(controller.signal).then(
+      (data) => {
+        if (isActive) {
+          setState({ status: "success", data, error: null });
+        }
+      },
+      (error) => {
+        if (isActive) {
+          setState((current) => ({
+            status: "error",
+            data: keepPreviousData ? current.data : undefined,
+            error: toError(error),
+          }));
+        }
+      }
+    );
+
+    // A newer run or unmount: cancel this one and ignore whatever it returns
+    return () => {
+      isActive = false;
+      controller.abort();
+    };
+  }, [run.id, keepPreviousData]);
+
+  const reload = useCallback(() => {
+    setRun((current) => ({ ...current, id: current.id + 1 }));
+    setState(toPending);
+  }, [toPending]);
+
+  return { ...state, reload };
+};
+// #endregion
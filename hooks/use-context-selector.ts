@@ -0,0 +1,77 @@
+import { useContext, useMemo, useSyncExternalStore, type Context } from "react";
+
+// What a context has to hold for useContextSelector: the state itself never
+// goes through React context, so a change doesn't re-render every consumer
+export type SelectableStore<State> = {
+  getState: () => State;
+  subscribe: (listener: () => void) => () => void;
+};
+
+// Same state, same slice: React calls getSnapshot often and compares the
+// results with Object.is
+const createGetSelection = <State, Selected>(
+  store: SelectableStore<State>,
+  selector: (state: State) => Selected,
+  isEqual: (a: Selected, b: Selected) => boolean
+) => {
+  let hasSelection = false;
+  let lastState: State;
+  let lastSelection: Selected;
+
+  return () => {
+    const state = store.getState();
+    if (hasSelection && Object.is(state, lastState)) {
+      return lastSelection;
+    }
+    const selection = selector(state);
+    lastState = state;
+    if (!hasSelection || !isEqual(lastSelection, selection)) {
+      lastSelection = selection;
+      hasSelection = true;
+    }
+    return lastSelection;
+  };
+};
+
+// #region use-context-selector
+/**
+ * Subscribe to one slice of a store kept in context. The component only
+ * re-renders when `selector` returns something that isn't `isEqual` to the
+ * previous slice, not whenever any part of the state changes.
+ *
+ * Define selectors outside the component (or memoize them) when they build
+ * new objects, and pass a matching `isEqual`, e.g. a shallow compare.
+ */
+export const useContextSelector = <State, Selected>(
+  context: Context<SelectableStore<State> | null>,
+  selector: (state: State) => Selected,
+  isEqual: (a: Selected, b: Selected) => boolean = Object.is
+): Selected => {
+  const store = useContext(context);
+
+  if (!store) {
+    throw new Error("useContextSelector must be used inside its provider");
+  }
+
+  const getSelection = useMemo(
+    () => createGetSelection(store, selector, isEqual),
+    [store, selector, isEqual]
+  );
+
+  return useSyncExternalStore(store.subscribe, getSelection, getSelection);
+};
+// #endregion
+
+export const shallowEqual = <T>(a: T, b: T) => {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) {
+    return false;
+  }
+  const keys = Object.keys(a) as (keyof T)[];
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => Object.is(a[key], b[key]))
+  );
+};
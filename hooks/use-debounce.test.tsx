@@ -0,0 +1,217 @@
+// @vitest-environment jsdom
+import { act, render, renderHook } from "@testing-library/react";
+import { useEffect } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useDebounce, useDebouncedValue } from "@/hooks/use-debounce";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const advance = (ms: number) =>
+  act(() => {
+    vi.advanceTimersByTime(ms);
+  });
+
+describe("useDebounce", () => {
+  it("returns a callable that runs the latest callback once quiet", () => {
+    const first = vi.fn();
+    const latest = vi.fn();
+    const { result, rerender } = renderHook(
+      ({ callback }) => useDebounce(callback, 100),
+      { initialProps: { callback: first } }
+    );
+
+    act(() => result.current("a"));
+    rerender({ callback: latest });
+    act(() => result.current("b"));
+    advance(100);
+
+    expect(first).not.toHaveBeenCalled();
+    expect(latest).toHaveBeenCalledTimes(1);
+    expect(latest).toHaveBeenLastCalledWith("b");
+  });
+
+  it("tracks isPending, and keeps its identity while it doesn't change", () => {
+    const { result, rerender } = renderHook(() => useDebounce(vi.fn(), 100));
+    const idle = result.current;
+
+    rerender();
+    expect(result.current).toBe(idle);
+    expect(result.current.isPending).toBe(false);
+
+    act(() => result.current());
+    expect(result.current.isPending).toBe(true);
+    advance(100);
+    expect(result.current.isPending).toBe(false);
+  });
+
+  it("runs the queued call on flush and drops it on cancel", () => {
+    const callback = vi.fn();
+    const { result } = renderHook(() => useDebounce(callback, 100));
+
+    act(() => result.current("a"));
+    act(() => result.current.flush());
+    expect(callback).toHaveBeenCalledWith("a");
+    expect(result.current.isPending).toBe(false);
+
+    act(() => result.current("b"));
+    act(() => result.current.cancel());
+    advance(100);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(result.current.isPending).toBe(false);
+  });
+
+  it("keeps calls made before the hook's effects have run", () => {
+    const callback = vi.fn();
+
+    // Child effects run before the parent's
+    const Child = ({ onMount }: { onMount: (value: string) => void }) => {
+      useEffect(() => onMount("from child"), [onMount]);
+      return null;
+    };
+    const Parent = () => {
+      const debounced = useDebounce(callback, 100);
+      return <Child onMount={debounced} />;
+    };
+
+    render(<Parent />);
+    advance(100);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith("from child");
+  });
+
+  it("cancels the queued call on unmount", () => {
+    const callback = vi.fn();
+    const { result, unmount } = renderHook(() => useDebounce(callback, 100));
+
+    act(() => result.current());
+    unmount();
+    advance(100);
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  describe("when the delay changes", () => {
+    it("re-queues a pending call for the new delay", () => {
+      const callback = vi.fn();
+      const { result, rerender } = renderHook(
+        ({ delay }) => useDebounce(callback, delay),
+        { initialProps: { delay: 100 } }
+      );
+
+      act(() => result.current("a"));
+      advance(50);
+      rerender({ delay: 300 });
+
+      // The old delay would have fired by now
+      advance(299);
+      expect(callback).not.toHaveBeenCalled();
+      expect(result.current.isPending).toBe(true);
+
+      advance(1);
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenLastCalledWith("a");
+      expect(result.current.isPending).toBe(false);
+    });
+
+    it("doesn't fire a re-queued call at once with leading", () => {
+      const callback = vi.fn();
+      const { result, rerender } = renderHook(
+        ({ delay }) => useDebounce(callback, delay, { leading: true }),
+        { initialProps: { delay: 100 } }
+      );
+
+      act(() => result.current("a"));
+      act(() => result.current("b"));
+      expect(callback).toHaveBeenCalledTimes(1);
+
+      rerender({ delay: 300 });
+      expect(callback).toHaveBeenCalledTimes(1);
+
+      advance(300);
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(callback).toHaveBeenLastCalledWith("b");
+
+      // Once that burst is over, leading applies again
+      act(() => result.current("c"));
+      expect(callback).toHaveBeenCalledTimes(3);
+      expect(callback).toHaveBeenLastCalledWith("c");
+    });
+
+    it("extends the re-queued burst with calls made before it fires", () => {
+      const callback = vi.fn();
+      const { result, rerender } = renderHook(
+        ({ delay }) => useDebounce(callback, delay, { leading: true }),
+        { initialProps: { delay: 100 } }
+      );
+
+      act(() => result.current("a"));
+      act(() => result.current("b"));
+      rerender({ delay: 300 });
+      advance(200);
+      act(() => result.current("c"));
+      advance(299);
+      expect(callback).toHaveBeenCalledTimes(1);
+
+      advance(1);
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(callback).toHaveBeenLastCalledWith("c");
+    });
+
+    it("uses the new delay when nothing was queued", () => {
+      const callback = vi.fn();
+      const { result, rerender } = renderHook(
+        ({ delay }) => useDebounce(callback, delay),
+        { initialProps: { delay: 100 } }
+      );
+
+      act(() => result.current("a"));
+      advance(100);
+      rerender({ delay: 300 });
+
+      act(() => result.current("b"));
+      advance(299);
+      expect(callback).toHaveBeenCalledTimes(1);
+      advance(1);
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+  });
+});
+
+describe("useDebouncedValue", () => {
+  it("settles on the latest value once it stops changing", () => {
+    const { result, rerender } = renderHook(
+      ({ value }) => useDebouncedValue(value, 100),
+      { initialProps: { value: "a" } }
+    );
+
+    rerender({ value: "ab" });
+    advance(50);
+    rerender({ value: "abc" });
+    advance(99);
+    expect(result.current).toBe("a");
+
+    advance(1);
+    expect(result.current).toBe("abc");
+  });
+
+  it("restarts the wait when the delay changes", () => {
+    const { result, rerender } = renderHook(
+      ({ value, delay }) => useDebouncedValue(value, delay),
+      { initialProps: { value: "a", delay: 100 } }
+    );
+
+    rerender({ value: "b", delay: 100 });
+    advance(50);
+    rerender({ value: "b", delay: 300 });
+    advance(299);
+    expect(result.current).toBe("a");
+
+    advance(1);
+    expect(result.current).toBe("b");
+  });
+});
@@ -0,0 +1,188 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  debounce,
+  type DebounceOptions,
+  type DebouncedFunction,
+} from "@/lib/debounce";
+
+type AnyFunction = (...args: never[]) => unknown;
+
+export type DebouncedCallback<T extends AnyFunction> = {
+  (...args: Parameters<T>): void;
+  cancel: () => void;
+  flush: () => void;
+  // Whether a call is queued and hasn't fired yet
+  isPending: boolean;
+};
+
+type DebouncerOptions = DebounceOptions & { delay: number };
+
+type Debouncer<T extends AnyFunction> = {
+  run: (...args: Parameters<T>) => void;
+  cancel: () => void;
+  flush: () => void;
+  setCallback: (callback: T) => void;
+  // New delay or options: a queued call is handed over to them
+  configure: (options: DebouncerOptions) => void;
+};
+
+const sameOptions = (a: DebouncerOptions, b: DebouncerOptions) =>
+  a.delay === b.delay &&
+  a.leading === b.leading &&
+  a.trailing === b.trailing &&
+  a.maxWait === b.maxWait;
+
+// Owns the debounced instance for one hook, outside React so calls work from
+// the first render on, before any effect has run
+const createDebouncer = <T extends AnyFunction>(
+  initialCallback: T,
+  initialOptions: DebouncerOptions,
+  onPendingChange: (isPending: boolean) => void
+): Debouncer<T> => {
+  let callback = initialCallback;
+  let options = initialOptions;
+  let lastArgs: Parameters<T> | null = null;
+  let instance: DebouncedFunction<(...args: Parameters<T>) => void> | null =
+    null;
+
+  // `carried` makes a trailing-only instance for the rest of a burst that
+  // started under the previous options
+  const createInstance = (carried: boolean) => {
+    const { delay, ...debounceOptions } = options;
+    const debounced = debounce(
+      (...args: Parameters<T>) => {
+        callback(...args);
+        onPendingChange(debounced.pending());
+        if (carried && instance === debounced) {
+          // Burst over, the next call starts one with the real options
+          instance = null;
+        }
+      },
+      delay,
+      carried
+        ? { ...debounceOptions, leading: false, trailing: true }
+        : debounceOptions
+    );
+    instance = debounced;
+    return debounced;
+  };
+
+  return {
+    run: (...args) => {
+      const debounced = instance ?? createInstance(false);
+      lastArgs = args;
+      debounced(...args);
+      onPendingChange(debounced.pending());
+    },
+    cancel: () => {
+      instance?.cancel();
+      onPendingChange(false);
+    },
+    flush: () => {
+      instance?.flush();
+      onPendingChange(false);
+    },
+    setCallback: (next) => {
+      callback = next;
+    },
+    configure: (next) => {
+      if (sameOptions(options, next)) {
+        return;
+      }
+      options = next;
+      const previous = instance;
+      instance = null;
+      if (!previous) {
+        return;
+      }
+      const carriedArgs = previous.pending() ? lastArgs : null;
+      previous.cancel();
+      if (carriedArgs) {
+        createInstance(true)(...carriedArgs);
+      }
+    },
+  };
+};
+
+const toCallable = <T extends AnyFunction>(
+  debouncer: Debouncer<T>,
+  isPending: boolean
+): DebouncedCallback<T> => {
+  const callable = (...args: Parameters<T>) => debouncer.run(...args);
+  callable.cancel = debouncer.cancel;
+  callable.flush = debouncer.flush;
+  callable.isPending = isPending;
+  return callable;
+};
+
+// #region use-debounce
+/**
+ * Debounce a callback that always sees the latest state/props, without
+ * recreating the debounced function.
+ *
+ * The returned function keeps its identity until `isPending` flips, and works
+ * from the first render on, even when a child calls it in its mount effect.
+ *
+ * Changing `delay` (or the options) doesn't drop a queued call: it waits for
+ * the new delay with its latest arguments, as the trailing call of the burst
+ * it belongs to, so it never fires at once even with `leading`. Unmounting
+ * cancels it.
+ */
+export const useDebounce = <T extends AnyFunction>(
+  callback: T,
+  delay: number,
+  { leading = false, trailing = true, maxWait }: DebounceOptions = {}
+): DebouncedCallback<T> => {
+  const [isPending, setIsPending] = useState(false);
+  const [debouncer] = useState(() =>
+    createDebouncer(
+      callback,
+      { delay, leading, trailing, maxWait },
+      setIsPending
+    )
+  );
+
+  // Fresh closure for the next call
+  useEffect(() => {
+    debouncer.setCallback(callback);
+  });
+
+  useEffect(() => {
+    debouncer.configure({ delay, leading, trailing, maxWait });
+  }, [debouncer, delay, leading, trailing, maxWait]);
+
+  useEffect(() => debouncer.cancel, [debouncer]);
+
+  return useMemo(
+    () => toCallable(debouncer, isPending),
+    [debouncer, isPending]
+  );
+};
+// #endregion
+
+/**
+ * Throttle a callback that always sees the latest state/props: it runs at
+ * most once per `delay`, on the leading and trailing edge by default.
+ * Behaves like useDebounce when `delay` changes.
+ */
+export const useThrottle = <T extends AnyFunction>(
+  callback: T,
+  delay: number,
+  { leading = true, trailing = true }: Omit<DebounceOptions, "maxWait"> = {}
+): DebouncedCallback<T> =>
+  useDebounce(callback, delay, { leading, trailing, maxWait: delay });
+
+/**
+ * The latest `value`, once it has stopped changing for `delay` ms. A new
+ * `delay` restarts the wait for the current value.
+ */
+export const useDebouncedValue = <T>(value: T, delay: number) => {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedValue(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debouncedValue;
+};
@@ -0,0 +1,67 @@
+import { useCallback, useContext, useEffect, useRef, useState } from "react";
+import { ErrorBoundaryContext } from "@/components/error-boundary";
+
+type BoundaryState = { hasError: false } | { hasError: true; error: unknown };
+
+/**
+ * Hand errors that React can't see (event handlers, timers, promises) to the
+ * nearest ErrorBoundary. showBoundary() stores the error in state and throws
+ * it on the next render, where the boundary catches it like any render error.
+ */
+export const useErrorBoundary = () => {
+  const context = useContext(ErrorBoundaryContext);
+  const [state, setState] = useState<BoundaryState>({ hasError: false });
+
+  if (!context) {
+    throw new Error("useErrorBoundary must be used inside an ErrorBoundary");
+  }
+
+  const showBoundary = useCallback((error: unknown) => {
+    setState({ hasError: true, error });
+  }, []);
+
+  const { resetErrorBoundary } = context;
+  const resetBoundary = useCallback(() => {
+    setState({ hasError: false });
+    resetErrorBoundary();
+  }, [resetErrorBoundary]);
+
+  if (state.hasError) {
+    throw state.error;
+  }
+
+  return { showBoundary, resetBoundary };
+};
+
+// #region use-error-boundary-callback
+/**
+ * Wraps an event handler so both synchronous throws and rejected promises
+ * (from async handlers) end up in the nearest ErrorBoundary.
+ */
+export const useErrorBoundaryCallback = <
+  T extends (...args: never[]) => unknown,
+>(
+  callback: T
+) => {
+  const { showBoundary } = useErrorBoundary();
+  const callbackRef = useRef(callback);
+
+  useEffect(() => {
+    callbackRef.current = callback;
+  });
+
+  return useCallback(
+    (...args: Parameters<T>) => {
+      try {
+        const result = callbackRef.current(...args);
+        if (result instanceof Promise) {
+          result.catch(showBoundary);
+        }
+      } catch (error) {
+        showBoundary(error);
+      }
+    },
+    [showBoundary]
+  );
+};
+// #endregion
@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from "react";
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener("hashchange", onChange);
+  return () => window.removeEventListener("hashchange", onChange);
+};
+
+const getSnapshot = () => decodeURIComponent(window.location.hash.slice(1));
+
+// There is no hash during SSR, so the server always renders the "no section" state
+const getServerSnapshot = () => "";
+
+// Current URL hash without the leading "#", kept in sync with hashchange events
+export const useLocationHash = () =>
+  useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+
+/**
+ * performance.now(), refreshed every `interval` ms while `active`. Lets
+ * timelines grow bars for work that is still in flight. Returns 0 until the
+ * first tick.
+ */
+export const useNow = (active: boolean, interval = 50) => {
+  const [now, setNow] = useState(0);
+
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+    const timer = setInterval(() => setNow(performance.now()), interval);
+    return () => clearInterval(timer);
+  }, [active, interval]);
+
+  return now;
+};
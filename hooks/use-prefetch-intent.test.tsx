@@ -0,0 +1,115 @@
+// @vitest-environment jsdom
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { usePrefetchIntent } from "@/hooks/use-prefetch-intent";
+import { createQueryCache } from "@/lib/query-cache";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("usePrefetchIntent", () => {
+  it("prefetches once the pointer has rested for the delay", () => {
+    const prefetch = vi.fn();
+    const { result } = renderHook(() =>
+      usePrefetchIntent(prefetch, { delay: 100 })
+    );
+
+    act(() => result.current.onMouseEnter());
+    vi.advanceTimersByTime(99);
+    expect(prefetch).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(prefetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't prefetch when the pointer leaves before the delay", () => {
+    const prefetch = vi.fn();
+    const { result } = renderHook(() => usePrefetchIntent(prefetch));
+
+    act(() => result.current.onMouseEnter());
+    vi.advanceTimersByTime(50);
+    act(() => result.current.onMouseLeave());
+    vi.runAllTimers();
+
+    expect(prefetch).not.toHaveBeenCalled();
+  });
+
+  it("restarts the delay when the pointer comes back", () => {
+    const prefetch = vi.fn();
+    const { result } = renderHook(() => usePrefetchIntent(prefetch));
+
+    act(() => result.current.onMouseEnter());
+    vi.advanceTimersByTime(80);
+    act(() => result.current.onMouseEnter());
+    vi.advanceTimersByTime(80);
+    expect(prefetch).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(20);
+    expect(prefetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("prefetches right away on focus and touch", () => {
+    const prefetch = vi.fn();
+    const { result } = renderHook(() => usePrefetchIntent(prefetch));
+
+    act(() => result.current.onFocus());
+    act(() => result.current.onTouchStart());
+    expect(prefetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("calls the latest prefetch passed in", () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const { result, rerender } = renderHook(
+      ({ prefetch }) => usePrefetchIntent(prefetch),
+      { initialProps: { prefetch: first } }
+    );
+
+    act(() => result.current.onMouseEnter());
+    rerender({ prefetch: second });
+    vi.runAllTimers();
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels a pending prefetch on unmount", () => {
+    const prefetch = vi.fn();
+    const { result, unmount } = renderHook(() => usePrefetchIntent(prefetch));
+
+    act(() => result.current.onMouseEnter());
+    unmount();
+    vi.runAllTimers();
+
+    expect(prefetch).not.toHaveBeenCalled();
+  });
+
+  it("doesn't request again while the prefetched data is fresh", async () => {
+    const cache = createQueryCache();
+    const fetcher = vi.fn(async () => "issue");
+    const { result } = renderHook(() =>
+      usePrefetchIntent(() =>
+        cache.prefetch("issue", fetcher, { staleTime: 1000 })
+      )
+    );
+
+    act(() => result.current.onMouseEnter());
+    await vi.advanceTimersByTimeAsync(100);
+    act(() => result.current.onMouseLeave());
+    act(() => result.current.onMouseEnter());
+    await vi.advanceTimersByTimeAsync(100);
+    act(() => result.current.onFocus());
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    // Stale again: the next hover fetches
+    await vi.advanceTimersByTimeAsync(1000);
+    act(() => result.current.onMouseEnter());
+    await vi.advanceTimersByTimeAsync(100);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
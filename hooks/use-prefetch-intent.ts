@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useRef } from "react";
+
+/**
+ * Event handlers that call `prefetch` as soon as the user shows intent to
+ * open something: hovering it for `delay` ms, focusing it, or touching it.
+ * Moving the pointer across without stopping doesn't prefetch.
+ */
+export const usePrefetchIntent = (
+  prefetch: () => void,
+  { delay = 100 }: { delay?: number } = {}
+) => {
+  const prefetchRef = useRef(prefetch);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    prefetchRef.current = prefetch;
+  });
+
+  const cancel = useCallback(() => {
+    if (timeoutRef.current !== null) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+  }, []);
+
+  const prefetchNow = useCallback(() => {
+    cancel();
+    prefetchRef.current();
+  }, [cancel]);
+
+  const onMouseEnter = useCallback(() => {
+    cancel();
+    timeoutRef.current = setTimeout(prefetchNow, delay);
+  }, [cancel, prefetchNow, delay]);
+
+  useEffect(() => cancel, [cancel]);
+
+  return {
+    onMouseEnter,
+    onMouseLeave: cancel,
+    onFocus: prefetchNow,
+    onTouchStart: prefetchNow,
+  };
+};
@@ -0,0 +1,88 @@
+// @vitest-environment jsdom
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useQuery } from "@/hooks/use-query";
+import { createQueryCache } from "@/lib/query-cache";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const flush = () =>
+  act(async () => {
+    await vi.advanceTimersByTimeAsync(0);
+  });
+
+describe("useQuery", () => {
+  it("fetches on mount and shares the result between readers", async () => {
+    const cache = createQueryCache();
+    const fetcher = vi.fn(async () => "data");
+
+    const first = renderHook(() => useQuery("issue", fetcher, { cache }));
+    const second = renderHook(() => useQuery("issue", fetcher, { cache }));
+    expect(first.result.current.status).toBe("pending");
+
+    await flush();
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(first.result.current.data).toBe("data");
+    expect(second.result.current.data).toBe("data");
+  });
+
+  it("shows stale data while it revalidates on mount", async () => {
+    const cache = createQueryCache();
+    await cache.fetchQuery("issue", async () => "old");
+    vi.advanceTimersByTime(1000);
+
+    let resolve: (value: string) => void = () => {};
+    const fetcher = () =>
+      new Promise<string>((settle) => {
+        resolve = settle;
+      });
+    const { result } = renderHook(() =>
+      useQuery("issue", fetcher, { cache, staleTime: 500 })
+    );
+
+    expect(result.current).toMatchObject({ data: "old", isFetching: true });
+    await act(async () => resolve("new"));
+    expect(result.current).toMatchObject({ data: "new", isFetching: false });
+  });
+
+  it("doesn't refetch data younger than staleTime", async () => {
+    const cache = createQueryCache();
+    const fetcher = vi.fn(async () => "data");
+    await cache.fetchQuery("issue", fetcher);
+
+    const { result } = renderHook(() =>
+      useQuery("issue", fetcher, { cache, staleTime: 500 })
+    );
+    await flush();
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(result.current.data).toBe("data");
+  });
+
+  it("ends in the error state after its retries, and refetch tries again", async () => {
+    const cache = createQueryCache();
+    const fetcher = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(new Error("down"));
+
+    const { result } = renderHook(() =>
+      useQuery("issue", fetcher, { cache, retry: 1, retryDelay: 100 })
+    );
+    await act(() => vi.runAllTimersAsync());
+    expect(result.current).toMatchObject({
+      status: "error",
+      error: new Error("down"),
+      failureCount: 2,
+    });
+
+    fetcher.mockResolvedValueOnce("data");
+    await act(() => result.current.refetch());
+    expect(result.current).toMatchObject({ status: "success", data: "data" });
+  });
+});
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import {
+  queryCache,
+  type Fetcher,
+  type QueryCache,
+  type QueryState,
+} from "@/lib/query-cache";
+
+export type UseQueryOptions = {
+  // How long data counts as fresh. Mounting with stale data shows it and
+  // refetches in the background
+  staleTime?: number;
+  retry?: number;
+  retryDelay?: number;
+  cache?: QueryCache;
+};
+
+export type UseQueryResult<T> = QueryState<T> & {
+  refetch: () => Promise<void>;
+};
+
+/**
+ * Read `key` from the query cache, fetching it on mount when it is missing or
+ * stale. Components using the same key share one request and one result.
+ *
+ * The key identifies the data, not the fetcher: a new `fetcher` on each render
+ * doesn't refetch, the latest one is simply used for the next fetch.
+ */
+export const useQuery = <T>(
+  key: string,
+  fetcher: Fetcher<T>,
+  {
+    staleTime = 0,
+    retry = 2,
+    retryDelay = 500,
+    cache = queryCache,
+  }: UseQueryOptions = {}
+): UseQueryResult<T> => {
+  const fetcherRef = useRef(fetcher);
+
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback(
+    (listener: () => void) => cache.subscribe(key, listener),
+    [cache, key]
+  );
+  const getSnapshot = useCallback(() => cache.getState<T>(key), [cache, key]);
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const refetch = useCallback(
+    () =>
+      cache
+        .fetchQuery(key, () => fetcherRef.current(), { retry, retryDelay })
+        .then(
+          () => undefined,
+          () => {
+            // The error is in the query state
+          }
+        ),
+    [cache, key, retry, retryDelay]
+  );
+
+  useEffect(() => {
+    if (cache.isStale(key, staleTime)) {
+      refetch();
+    }
+  }, [cache, key, staleTime, refetch]);
+
+  return { ...state, refetch };
+};
@@ -0,0 +1,152 @@
+import type { ComponentType } from "react";
+
+export type ChapterModule = { default: ComponentType };
+
+export type ChapterLoader = () => Promise<ChapterModule>;
+
+export type ChapterItem = {
+  id: string;
+  title: string;
+  description: string;
+  tags: readonly string[];
+  // Dynamic imports for each half, only called by the client chapter view
+  load: ChapterLoader;
+  loadOptimised: ChapterLoader;
+};
+
+// Only the fields the sidebar needs, so it can be rendered on the client
+export type ChapterSummary = Pick<ChapterItem, "id" | "title" | "description">;
+
+// Chapter registry: adding a chapter is one entry here. Server code (static
+// params, metadata) only reads the plain fields; the loaders are thunks, so
+// the chapter components are fetched on demand by the client view.
+export const chapters = [
+  {
+    id: "chapter-1",
+    title: "Chapter 1",
+    description: "Re-renders & State",
+    tags: ["re-renders", "state"],
+    load: () => import("@/components/chapter-1"),
+    loadOptimised: () => import("@/components/chapter-1/optimised"),
+  },
+  {
+    id: "chapter-2",
+    title: "Chapter 2",
+    description: "Elements, Children as Props",
+    tags: ["elements", "children"],
+    load: () => import("@/components/chapter-2"),
+    loadOptimised: () => import("@/components/chapter-2/optimised"),
+  },
+  {
+    id: "chapter-3",
+    title: "Chapter 3",
+    description: "Configuration & Elements as Props",
+    tags: ["elements", "props"],
+    load: () => import("@/components/chapter-3"),
+    loadOptimised: () => import("@/components/chapter-3/optimised"),
+  },
+  {
+    id: "chapter-4",
+    title: "Chapter 4",
+    description: "Render Props",
+    tags: ["render-props"],
+    load: () => import("@/components/chapter-4"),
+    loadOptimised: () => import("@/components/chapter-4/optimised"),
+  },
+  {
+    id: "chapter-5",
+    title: "Chapter 5",
+    description: "Memoization (useMemo, useCallback)",
+    tags: ["memoization", "useMemo", "useCallback"],
+    load: () => import("@/components/chapter-5"),
+    loadOptimised: () => import("@/components/chapter-5/optimised"),
+  },
+  {
+    id: "chapter-6",
+    title: "Chapter 6",
+    description: "Diffing & Reconciliation",
+    tags: ["reconciliation", "keys"],
+    load: () => import("@/components/chapter-6"),
+    loadOptimised: () => import("@/components/chapter-6/optimised"),
+  },
+  {
+    id: "chapter-7",
+    title: "Chapter 7",
+    description: "Higher-Order Components",
+    tags: ["hoc"],
+    load: () => import("@/components/chapter-7"),
+    loadOptimised: () => import("@/components/chapter-7/optimised"),
+  },
+  {
+    id: "chapter-8",
+    title: "Chapter 8",
+    description: "Context & Performance",
+    tags: ["context", "performance"],
+    load: () => import("@/components/chapter-8"),
+    loadOptimised: () => import("@/components/chapter-8/optimised"),
+  },
+  {
+    id: "chapter-9",
+    title: "Chapter 9",
+    description: "Refs & Imperative API",
+    tags: ["refs", "imperative-api"],
+    load: () => import("@/components/chapter-9"),
+    loadOptimised: () => import("@/components/chapter-9/optimised"),
+  },
+  {
+    id: "chapter-10",
+    title: "Chapter 10",
+    description: "Closures in React",
+    tags: ["closures", "refs"],
+    load: () => import("@/components/chapter-10"),
+    loadOptimised: () => import("@/components/chapter-10/optimised"),
+  },
+  {
+    id: "chapter-11",
+    title: "Chapter 11",
+    description: "Debouncing & Throttling",
+    tags: ["debounce", "throttle"],
+    load: () => import("@/components/chapter-11"),
+    loadOptimised: () => import("@/components/chapter-11/optimised"),
+  },
+  {
+    id: "chapter-12",
+    title: "Chapter 12",
+    description: "useLayoutEffect & Flickering",
+    tags: ["useLayoutEffect"],
+    load: () => import("@/components/chapter-12"),
+    loadOptimised: () => import("@/components/chapter-12/optimised"),
+  },
+  {
+    id: "chapter-13",
+    title: "Chapter 13",
+    description: "Data Fetching & Performance",
+    tags: ["data-fetching", "waterfalls"],
+    load: () => import("@/components/chapter-13"),
+    loadOptimised: () => import("@/components/chapter-13/optimised"),
+  },
+  {
+    id: "chapter-14",
+    title: "Chapter 14",
+    description: "Race Conditions",
+    tags: ["data-fetching", "race-conditions"],
+    load: () => import("@/components/chapter-14"),
+    loadOptimised: () => import("@/components/chapter-14/optimised"),
+  },
+  {
+    id: "chapter-15",
+    title: "Chapter 15",
+    description: "Error Handling",
+    tags: ["error-boundaries"],
+    load: () => import("@/components/chapter-15"),
+    loadOptimised: () => import("@/components/chapter-15/optimised"),
+  },
+] as const satisfies readonly ChapterItem[];
+
+export type ChapterId = (typeof chapters)[number]["id"];
+
+export const getChapter = (id: string) =>
+  chapters.find((chapter) => chapter.id === id);
+
+export const getChapterSummaries = (): ChapterSummary[] =>
+  chapters.map(({ id, title, description }) => ({ id, title, description }));
@@ -0,0 +1,57 @@
+import type { ComponentType } from "react";
+import { transform } from "sucrase";
+
+// Modules a runnable snippet may import, e.g. { react: React }
+export type SnippetModules = Record<string, unknown>;
+
+export type CompileResult =
+  | { ok: true; Component: ComponentType }
+  | { ok: false; error: string };
+
+// Compiles a TSX snippet in the browser and evaluates it as a CommonJS module.
+// Imports only resolve to the modules passed in, so nothing is fetched and the
+// snippet can't reach into the rest of the app. It must default-export the
+// component to render.
+export const compileSnippet = (
+  source: string,
+  modules: SnippetModules
+): CompileResult => {
+  let code: string;
+  try {
+    code = transform(source, {
+      transforms: ["typescript", "jsx", "imports"],
+      jsxRuntime: "automatic",
+      production: true,
+    }).code;
+  } catch (error) {
+    return { ok: false, error: (error as Error).message };
+  }
+
+  const requireModule = (name: string) => {
+    if (!(name in modules)) {
+      throw new Error(`Cannot import "${name}" in a playground snippet`);
+    }
+    return modules[name];
+  };
+  const snippetModule: { exports: { default?: unknown } } = { exports: {} };
+
+  try {
+    new Function("require", "module", "exports", code)(
+      requireModule,
+      snippetModule,
+      snippetModule.exports
+    );
+  } catch (error) {
+    return { ok: false, error: (error as Error).message };
+  }
+
+  // memo() and forwardRef() components are objects, so only check presence
+  if (!snippetModule.exports.default) {
+    return {
+      ok: false,
+      error: "Runnable snippets need a default export of a component",
+    };
+  }
+
+  return { ok: true, Component: snippetModule.exports.default as ComponentType };
+};
@@ -0,0 +1,155 @@
+// @vitest-environment jsdom
+import { act, cleanup, render } from "@testing-library/react";
+import { StrictMode, useEffect } from "react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createSplitContext } from "@/lib/create-split-context";
+import type { Middleware } from "@/lib/reducer-middleware";
+
+type CounterState = { count: number };
+type CounterAction = { type: "increment" } | { type: "restore"; count: number };
+
+const reducer = (state: CounterState, action: CounterAction) =>
+  action.type === "increment"
+    ? { count: state.count + 1 }
+    : { count: action.count };
+
+const actions = {
+  increment: (): CounterAction => ({ type: "increment" }),
+};
+
+// Records the actions it sees, and restores `restored` like persistence does
+const createRecorder = (restored?: CounterState) => {
+  const seen: CounterAction["type"][] = [];
+  const detach = vi.fn();
+  const middleware: Middleware<CounterState, CounterAction> = ({
+    replaceState,
+  }) => {
+    if (restored) {
+      replaceState(restored);
+    }
+    return {
+      dispatch: (next) => (action) => {
+        seen.push(action.type);
+        next(action);
+      },
+      detach,
+    };
+  };
+  return { seen, detach, middleware };
+};
+
+const createCounter = (middleware: Middleware<CounterState, CounterAction>) => {
+  const counter = createSplitContext({
+    name: "Counter",
+    reducer,
+    initialState: { count: 0 },
+    actions,
+    middleware: [middleware],
+  });
+
+  const Count = () => <output>{counter.useData().count}</output>;
+
+  // Dispatches from its mount effect, which runs before the provider's
+  const IncrementOnMount = () => {
+    const api = counter.useApi();
+    useEffect(() => api.increment(), [api]);
+    return null;
+  };
+
+  const Increment = () => {
+    const api = counter.useApi();
+    return (
+      <button onClick={api.increment} type="button">
+        +
+      </button>
+    );
+  };
+
+  return { ...counter, Count, IncrementOnMount, Increment };
+};
+
+afterEach(cleanup);
+
+describe("createSplitContext middleware", () => {
+  it("sees a dispatch from a descendant's mount effect", () => {
+    const recorder = createRecorder();
+    const { Provider, Count, IncrementOnMount } = createCounter(
+      recorder.middleware
+    );
+
+    const { container } = render(
+      <Provider>
+        <IncrementOnMount />
+        <Count />
+      </Provider>
+    );
+
+    expect(recorder.seen).toEqual(["increment"]);
+    expect(container.textContent).toBe("1");
+  });
+
+  it("restores state before that first action, not over it", () => {
+    const recorder = createRecorder({ count: 10 });
+    const { Provider, Count, IncrementOnMount } = createCounter(
+      recorder.middleware
+    );
+
+    const { container } = render(
+      <Provider>
+        <IncrementOnMount />
+        <Count />
+      </Provider>
+    );
+
+    expect(container.textContent).toBe("11");
+  });
+
+  it("attaches once under StrictMode and stays attached", () => {
+    const recorder = createRecorder();
+    const { Provider, Count, Increment } = createCounter(recorder.middleware);
+
+    const { container, getByRole } = render(
+      <StrictMode>
+        <Provider>
+          <Increment />
+          <Count />
+        </Provider>
+      </StrictMode>
+    );
+    act(() => getByRole("button").click());
+
+    expect(recorder.seen).toEqual(["increment"]);
+    expect(container.textContent).toBe("+1");
+  });
+
+  it("detaches on unmount and doesn't come back for late dispatches", () => {
+    const recorder = createRecorder();
+    const { Provider, Increment, useApi } = createCounter(recorder.middleware);
+    type Api = ReturnType<typeof useApi>;
+    let api: Api | null = null;
+
+    const CaptureApi = ({ onApi }: { onApi: (api: Api) => void }) => {
+      const api = useApi();
+      useEffect(() => onApi(api), [api, onApi]);
+      return null;
+    };
+
+    const { unmount, getByRole } = render(
+      <Provider>
+        <Increment />
+        <CaptureApi
+          onApi={(captured) => {
+            api = captured;
+          }}
+        />
+      </Provider>
+    );
+    act(() => getByRole("button").click());
+    unmount();
+    expect(recorder.detach).toHaveBeenCalledTimes(1);
+
+    // e.g. a request that settles after the page has gone
+    api!.increment();
+    expect(recorder.seen).toEqual(["increment"]);
+  });
+});
@@ -0,0 +1,231 @@
+import {
+  createContext,
+  memo,
+  useContext,
+  useEffect,
+  useState,
+  useSyncExternalStore,
+  type ComponentType,
+  type ReactNode,
+  type Reducer,
+} from "react";
+import {
+  shallowEqual,
+  useContextSelector,
+  type SelectableStore,
+} from "@/hooks/use-context-selector";
+import type { Dispatch, Middleware } from "@/lib/reducer-middleware";
+
+type ActionCreators<Action> = Record<string, (...args: never[]) => Action>;
+
+// Action creators turned into functions that dispatch what they create
+export type SplitContextApi<Actions extends ActionCreators<unknown>> = {
+  [Name in keyof Actions]: (...args: Parameters<Actions[Name]>) => void;
+};
+
+export type SplitContextStore<State, Action> = SelectableStore<State> & {
+  dispatch: Dispatch<Action>;
+  replaceState: (state: State) => void;
+  // Runs every action through the middleware, returns a function to detach it
+  attachMiddleware: () => () => void;
+};
+
+type SplitContextOptions<
+  State,
+  Action,
+  Actions extends ActionCreators<Action>,
+> = {
+  // Used in error messages and HOC display names, e.g. "Navigation"
+  name: string;
+  reducer: Reducer<State, Action>;
+  initialState: State;
+  actions: Actions;
+  // Logger, persistence, devtools... the first one sees each action first
+  middleware?: Middleware<State, Action>[];
+};
+
+const createStore = <State, Action>(
+  reducer: Reducer<State, Action>,
+  initialState: State,
+  middleware: Middleware<State, Action>[]
+): SplitContextStore<State, Action> => {
+  let state = initialState;
+  const listeners = new Set<() => void>();
+
+  const setState = (next: State) => {
+    // An action that leaves every field as it was isn't a change
+    if (shallowEqual(state, next)) {
+      return;
+    }
+    state = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  const reduce: Dispatch<Action> = (action) => setState(reducer(state, action));
+  let dispatchThroughMiddleware = reduce;
+  let middlewareStatus: "idle" | "attached" | "detached" = "idle";
+  let detachMiddleware = () => {};
+
+  const store: SplitContextStore<State, Action> = {
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    dispatch: (action) => {
+      // A descendant's mount effect runs before the provider's and can
+      // dispatch first: attach now, so that action isn't missed or
+      // overwritten by the persisted state restored later
+      if (middlewareStatus === "idle" && typeof window !== "undefined") {
+        store.attachMiddleware();
+      }
+      dispatchThroughMiddleware(action);
+    },
+    replaceState: setState,
+    attachMiddleware: () => {
+      if (middlewareStatus === "attached") {
+        return detachMiddleware;
+      }
+
+      const handles = middleware.map((attach) => attach(store));
+      dispatchThroughMiddleware = handles.reduceRight<Dispatch<Action>>(
+        (next, handle) => handle.dispatch?.(next) ?? next,
+        reduce
+      );
+      middlewareStatus = "attached";
+
+      detachMiddleware = () => {
+        if (middlewareStatus !== "attached") {
+          return;
+        }
+        // Detached for good unless attached again explicitly: a late
+        // dispatch after unmount mustn't bring it back
+        middlewareStatus = "detached";
+        dispatchThroughMiddleware = reduce;
+        handles.forEach((handle) => handle.detach?.());
+      };
+      return detachMiddleware;
+    },
+  };
+
+  return store;
+};
+
+/**
+ * Data and API in two contexts, so components that only dispatch never
+ * re-render when the state changes.
+ *
+ * The data context holds a store rather than the state: `useData()` follows
+ * the whole state, `useSelector()` just the slice it picks. The API is built
+ * once from `actions` and never changes, and every action it dispatches
+ * passes through `middleware`.
+ *
+ * Middleware attaches in the browser only, when the provider mounts or on the
+ * first dispatch if a descendant's mount effect dispatches earlier. Persisted
+ * state is therefore restored just after hydration, never in the server
+ * render, and always before the first action.
+ */
+export const createSplitContext = <
+  State,
+  Action,
+  Actions extends ActionCreators<Action>,
+>({
+  name,
+  reducer,
+  initialState,
+  actions,
+  middleware = [],
+}: SplitContextOptions<State, Action, Actions>) => {
+  type Api = SplitContextApi<Actions>;
+
+  // Components only read through the context, dispatch stays in the API
+  const StoreContext = createContext<SelectableStore<State> | null>(null);
+  const ApiContext = createContext<Api | null>(null);
+  StoreContext.displayName = `${name}StoreContext`;
+  ApiContext.displayName = `${name}ApiContext`;
+
+  const Provider = ({ children }: { children: ReactNode }) => {
+    const [store] = useState(() =>
+      createStore(reducer, initialState, middleware)
+    );
+
+    // Dispatch is stable, so the API never changes
+    const [api] = useState(() => {
+      const api = {} as Api;
+      for (const actionName of Object.keys(actions) as (keyof Actions)[]) {
+        api[actionName] = (...args) =>
+          store.dispatch(actions[actionName](...args));
+      }
+      return api;
+    });
+
+    // Attached after mount rather than with the store: StrictMode creates the
+    // store twice and drops one, and the devtools must not end up on that one
+    useEffect(() => store.attachMiddleware(), [store]);
+
+    return (
+      <StoreContext.Provider value={store}>
+        <ApiContext.Provider value={api}>{children}</ApiContext.Provider>
+      </StoreContext.Provider>
+    );
+  };
+  Provider.displayName = `${name}Provider`;
+
+  const useStore = () => {
+    const store = useContext(StoreContext);
+    if (store === null) {
+      throw new Error(`use${name}Data must be used inside ${name}Provider`);
+    }
+    return store;
+  };
+
+  // The whole state: re-renders on every change
+  const useData = () => {
+    const store = useStore();
+    return useSyncExternalStore(
+      store.subscribe,
+      store.getState,
+      store.getState
+    );
+  };
+
+  // One slice of the state: re-renders only when that slice changes
+  const useSelector = <Selected,>(
+    selector: (state: State) => Selected,
+    isEqual?: (a: Selected, b: Selected) => boolean
+  ) => useContextSelector(StoreContext, selector, isEqual);
+
+  const useApi = () => {
+    const api = useContext(ApiContext);
+    if (api === null) {
+      throw new Error(`use${name}Api must be used inside ${name}Provider`);
+    }
+    return api;
+  };
+
+  // Memoized component that gets the API as a prop and never subscribes to
+  // the data
+  const withApi = <P extends { api?: Api }>(Component: ComponentType<P>) => {
+    const MemoizedComponent = memo(Component);
+
+    const WrappedComponent = (props: Omit<P, "api">) => {
+      const api = useApi();
+      return <MemoizedComponent {...(props as P)} api={api} />;
+    };
+
+    WrappedComponent.displayName = `with${name}Api(${
+      Component.displayName || Component.name || "Component"
+    })`;
+    return WrappedComponent;
+  };
+
+  return {
+    Provider,
+    useData,
+    useSelector,
+    useApi,
+    withApi,
+    StoreContext,
+    ApiContext,
+  };
+};
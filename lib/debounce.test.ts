@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { debounce, throttle } from "@/lib/debounce";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("debounce", () => {
+  it("calls once with the last arguments after the burst goes quiet", () => {
+    const func = vi.fn();
+    const debounced = debounce(func, 100);
+
+    debounced("a");
+    vi.advanceTimersByTime(50);
+    debounced("b");
+    vi.advanceTimersByTime(99);
+    expect(func).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(func).toHaveBeenCalledTimes(1);
+    expect(func).toHaveBeenLastCalledWith("b");
+  });
+
+  it("forwards `this` to the wrapped function", () => {
+    const receivers: unknown[] = [];
+    const target = {
+      save: debounce(function (this: unknown) {
+        receivers.push(this);
+      }, 100),
+    };
+
+    target.save();
+    vi.advanceTimersByTime(100);
+    expect(receivers).toEqual([target]);
+  });
+
+  it("calls on the leading edge only, when trailing is off", () => {
+    const func = vi.fn();
+    const debounced = debounce(func, 100, { leading: true, trailing: false });
+
+    debounced("a");
+    debounced("b");
+    expect(func).toHaveBeenCalledTimes(1);
+    expect(func).toHaveBeenLastCalledWith("a");
+
+    vi.advanceTimersByTime(100);
+    expect(func).toHaveBeenCalledTimes(1);
+
+    // A new burst starts on the leading edge again
+    debounced("c");
+    expect(func).toHaveBeenCalledTimes(2);
+    expect(func).toHaveBeenLastCalledWith("c");
+  });
+
+  it("calls on both edges, but not twice for a single call", () => {
+    const func = vi.fn();
+    const debounced = debounce(func, 100, { leading: true });
+
+    debounced("a");
+    vi.advanceTimersByTime(100);
+    expect(func).toHaveBeenCalledTimes(1);
+
+    debounced("b");
+    debounced("c");
+    expect(func).toHaveBeenCalledTimes(2);
+    vi.advanceTimersByTime(100);
+    expect(func).toHaveBeenCalledTimes(3);
+    expect(func).toHaveBeenLastCalledWith("c");
+  });
+
+  it("returns the result of the last call", () => {
+    const debounced = debounce((value: number) => value * 2, 100, {
+      leading: true,
+    });
+
+    expect(debounced(1)).toBe(2);
+    expect(debounced(2)).toBe(2);
+    vi.advanceTimersByTime(100);
+    expect(debounced.flush()).toBe(4);
+  });
+
+  it("calls at least every maxWait ms during a continuous burst", () => {
+    const func = vi.fn();
+    const debounced = debounce(func, 100, { maxWait: 250 });
+
+    // A call every 50ms never goes quiet for 100ms
+    for (let elapsed = 0; elapsed < 600; elapsed += 50) {
+      debounced(elapsed);
+      vi.advanceTimersByTime(50);
+    }
+    expect(func.mock.calls.map(([elapsed]) => elapsed)).toEqual([200, 450]);
+
+    vi.advanceTimersByTime(100);
+    expect(func).toHaveBeenCalledTimes(3);
+    expect(func).toHaveBeenLastCalledWith(550);
+  });
+
+  it("treats a maxWait below wait as wait", () => {
+    const func = vi.fn();
+    const debounced = debounce(func, 100, { maxWait: 10 });
+
+    debounced();
+    vi.advanceTimersByTime(99);
+    expect(func).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(func).toHaveBeenCalledTimes(1);
+  });
+
+  it("drops the queued call and the burst on cancel", () => {
+    const func = vi.fn();
+    const debounced = debounce(func, 100, { leading: true });
+
+    debounced("a");
+    debounced("b");
+    debounced.cancel();
+    expect(debounced.pending()).toBe(false);
+
+    vi.advanceTimersByTime(100);
+    expect(func).toHaveBeenCalledTimes(1);
+
+    // Right after cancel the next call is a fresh leading edge
+    debounced("c");
+    expect(func).toHaveBeenCalledTimes(2);
+    expect(func).toHaveBeenLastCalledWith("c");
+  });
+
+  it("runs the queued call right away on flush", () => {
+    const func = vi.fn((value: string) => value.toUpperCase());
+    const debounced = debounce(func, 100);
+
+    debounced("a");
+    expect(debounced.flush()).toBe("A");
+    expect(func).toHaveBeenCalledTimes(1);
+    expect(debounced.pending()).toBe(false);
+
+    // Nothing left for the timer to do
+    vi.advanceTimersByTime(100);
+    expect(func).toHaveBeenCalledTimes(1);
+  });
+
+  it("does nothing on flush when no call is queued", () => {
+    const func = vi.fn();
+    const debounced = debounce(func, 100, { leading: true, trailing: false });
+
+    expect(debounced.flush()).toBeUndefined();
+    debounced("a");
+    debounced.flush();
+    expect(func).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports pending only while a trailing call is queued", () => {
+    const debounced = debounce(vi.fn(), 100, { leading: true });
+
+    expect(debounced.pending()).toBe(false);
+    // The leading call already ran, nothing is queued yet
+    debounced();
+    expect(debounced.pending()).toBe(false);
+    debounced();
+    expect(debounced.pending()).toBe(true);
+    vi.advanceTimersByTime(100);
+    expect(debounced.pending()).toBe(false);
+  });
+});
+
+describe("throttle", () => {
+  it("calls on the leading edge and then at most once per wait", () => {
+    const start = Date.now();
+    const calls: { calledAt: number; elapsed: number }[] = [];
+    const throttled = throttle((elapsed: number) => {
+      calls.push({ calledAt: Date.now() - start, elapsed });
+    }, 100);
+
+    for (let elapsed = 0; elapsed < 300; elapsed += 20) {
+      throttled(elapsed);
+      vi.advanceTimersByTime(20);
+    }
+    vi.advanceTimersByTime(100);
+
+    // Every wait ms, with the latest arguments seen by then
+    expect(calls).toEqual([
+      { calledAt: 0, elapsed: 0 },
+      { calledAt: 100, elapsed: 80 },
+      { calledAt: 200, elapsed: 180 },
+      { calledAt: 300, elapsed: 280 },
+    ]);
+  });
+
+  it("skips the trailing call when trailing is off", () => {
+    const func = vi.fn();
+    const throttled = throttle(func, 100, { trailing: false });
+
+    throttled("a");
+    throttled("b");
+    vi.advanceTimersByTime(100);
+    expect(func).toHaveBeenCalledTimes(1);
+    expect(func).toHaveBeenLastCalledWith("a");
+  });
+});
@@ -0,0 +1,163 @@
+// Debounce and throttle as taught in chapter 11, with the options the demos
+// need in practice: leading/trailing edges, maxWait, flush() and pending().
+
+type AnyFunction = (...args: never[]) => unknown;
+
+export type DebounceOptions = {
+  // Call on the first invocation of a burst
+  leading?: boolean;
+  // Call once the burst has been quiet for `wait` ms (default)
+  trailing?: boolean;
+  // Never wait longer than this between calls, even while still bursting
+  maxWait?: number;
+};
+
+export type ThrottleOptions = Omit<DebounceOptions, "maxWait">;
+
+export type DebouncedFunction<T extends AnyFunction> = {
+  (
+    this: ThisParameterType<T>,
+    ...args: Parameters<T>
+  ): ReturnType<T> | undefined;
+  // Drops the queued call and forgets the current burst
+  cancel: () => void;
+  // Runs the queued call right away, if there is one
+  flush: () => ReturnType<T> | undefined;
+  // Whether a trailing call is queued
+  pending: () => boolean;
+};
+
+export const debounce = <T extends AnyFunction>(
+  func: T,
+  wait: number,
+  { leading = false, trailing = true, maxWait }: DebounceOptions = {}
+): DebouncedFunction<T> => {
+  const maxDelay = maxWait === undefined ? undefined : Math.max(maxWait, wait);
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  let lastArgs: Parameters<T> | undefined;
+  let lastThis: ThisParameterType<T> | undefined;
+  let lastCallTime: number | undefined;
+  let lastInvokeTime = 0;
+  let result: ReturnType<T> | undefined;
+
+  const invoke = (time: number) => {
+    const args = lastArgs as Parameters<T>;
+    const thisArg = lastThis;
+    lastArgs = undefined;
+    lastThis = undefined;
+    lastInvokeTime = time;
+    result = func.apply(thisArg, args) as ReturnType<T>;
+    return result;
+  };
+
+  const shouldInvoke = (time: number) => {
+    if (lastCallTime === undefined) {
+      return true;
+    }
+    const sinceCall = time - lastCallTime;
+    const sinceInvoke = time - lastInvokeTime;
+    return (
+      sinceCall >= wait ||
+      // The clock went backwards, don't get stuck waiting
+      sinceCall < 0 ||
+      (maxDelay !== undefined && sinceInvoke >= maxDelay)
+    );
+  };
+
+  const remainingWait = (time: number) => {
+    const untilQuiet = wait - (time - (lastCallTime ?? time));
+    return maxDelay === undefined
+      ? untilQuiet
+      : Math.min(untilQuiet, maxDelay - (time - lastInvokeTime));
+  };
+
+  const trailingEdge = (time: number) => {
+    timeoutId = undefined;
+    // Only call if there was a call since the leading edge
+    if (trailing && lastArgs) {
+      return invoke(time);
+    }
+    lastArgs = undefined;
+    lastThis = undefined;
+    return result;
+  };
+
+  const timerExpired = () => {
+    const time = Date.now();
+    if (shouldInvoke(time)) {
+      trailingEdge(time);
+    } else {
+      timeoutId = setTimeout(timerExpired, remainingWait(time));
+    }
+  };
+
+  const leadingEdge = (time: number) => {
+    lastInvokeTime = time;
+    timeoutId = setTimeout(timerExpired, wait);
+    return leading ? invoke(time) : result;
+  };
+
+  const call = (thisArg: ThisParameterType<T>, args: Parameters<T>) => {
+    const time = Date.now();
+    const isInvoking = shouldInvoke(time);
+
+    lastArgs = args;
+    // Forwarded to func when it finally runs
+    lastThis = thisArg;
+    lastCallTime = time;
+
+    if (isInvoking) {
+      if (timeoutId === undefined) {
+        return leadingEdge(time);
+      }
+      if (maxDelay !== undefined) {
+        // maxWait reached mid-burst: call now and keep waiting for quiet
+        clearTimeout(timeoutId);
+        timeoutId = setTimeout(timerExpired, wait);
+        return invoke(time);
+      }
+    }
+    if (timeoutId === undefined) {
+      timeoutId = setTimeout(timerExpired, wait);
+    }
+    return result;
+  };
+
+  function debounced(this: ThisParameterType<T>, ...args: Parameters<T>) {
+    return call(this, args);
+  }
+
+  debounced.cancel = () => {
+    if (timeoutId !== undefined) {
+      clearTimeout(timeoutId);
+    }
+    timeoutId = undefined;
+    lastArgs = undefined;
+    lastThis = undefined;
+    lastCallTime = undefined;
+    lastInvokeTime = 0;
+  };
+
+  debounced.flush = () => {
+    if (timeoutId === undefined) {
+      return result;
+    }
+    clearTimeout(timeoutId);
+    return trailingEdge(Date.now());
+  };
+
+  debounced.pending = () =>
+    timeoutId !== undefined && trailing && lastArgs !== undefined;
+
+  return debounced;
+};
+
+// Calls at most once per `wait` ms: a debounce that never waits longer
+// than `wait`, firing on both edges by default
+export const throttle = <T extends AnyFunction>(
+  func: T,
+  wait: number,
+  { leading = true, trailing = true }: ThrottleOptions = {}
+): DebouncedFunction<T> =>
+  debounce(func, wait, { leading, trailing, maxWait: wait });
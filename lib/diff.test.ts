@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { diffLines, toSplitRows, type DiffLine } from "@/lib/diff";
+
+const lines = (...content: string[]) => content.join("\n");
+
+// "+ b", "- a", "  c": the shape a unified diff prints
+const summarise = (diff: DiffLine[]) =>
+  diff.map(
+    ({ type, content }) =>
+      `${type === "added" ? "+" : type === "removed" ? "-" : " "} ${content}`
+  );
+
+describe("diffLines", () => {
+  it("marks only inserted lines as added", () => {
+    const diff = diffLines(lines("a", "c"), lines("a", "b", "c"));
+
+    expect(summarise(diff)).toEqual(["  a", "+ b", "  c"]);
+    expect(diff[1]).toEqual({ type: "added", content: "b", afterLine: 2 });
+    expect(diff[2]).toMatchObject({ beforeLine: 2, afterLine: 3 });
+  });
+
+  it("marks only deleted lines as removed", () => {
+    const diff = diffLines(lines("a", "b", "c"), lines("a", "c"));
+
+    expect(summarise(diff)).toEqual(["  a", "- b", "  c"]);
+    expect(diff[1]).toEqual({ type: "removed", content: "b", beforeLine: 2 });
+  });
+
+  it("lists a replaced block's removals before its additions", () => {
+    const diff = diffLines(
+      lines("start", "old 1", "old 2", "end"),
+      lines("start", "new 1", "new 2", "new 3", "end")
+    );
+
+    expect(summarise(diff)).toEqual([
+      "  start",
+      "- old 1",
+      "- old 2",
+      "+ new 1",
+      "+ new 2",
+      "+ new 3",
+      "  end",
+    ]);
+  });
+
+  it("returns only context for identical input", () => {
+    const source = lines("a", "b", "c");
+    const diff = diffLines(source, source);
+
+    expect(diff.every((line) => line.type === "context")).toBe(true);
+    expect(diff.map((line) => [line.beforeLine, line.afterLine])).toEqual([
+      [1, 1],
+      [2, 2],
+      [3, 3],
+    ]);
+  });
+
+  it("treats an empty snippet as having no lines", () => {
+    expect(diffLines("", "")).toEqual([]);
+    expect(summarise(diffLines("", lines("a", "b")))).toEqual(["+ a", "+ b"]);
+    expect(summarise(diffLines(lines("a", "b"), ""))).toEqual(["- a", "- b"]);
+  });
+});
+
+describe("toSplitRows", () => {
+  it("pairs a replaced block line by line, padding the shorter side", () => {
+    const rows = toSplitRows(
+      diffLines(
+        lines("start", "old 1", "old 2", "end"),
+        lines("start", "new 1", "new 2", "new 3", "end")
+      )
+    );
+
+    expect(
+      rows.map(({ before, after }) => [
+        before?.content ?? null,
+        after?.content ?? null,
+      ])
+    ).toEqual([
+      ["start", "start"],
+      ["old 1", "new 1"],
+      ["old 2", "new 2"],
+      [null, "new 3"],
+      ["end", "end"],
+    ]);
+  });
+
+  it("puts an insert on the right only and a delete on the left only", () => {
+    const inserted = toSplitRows(diffLines(lines("a"), lines("a", "b")));
+    expect(inserted[1]).toEqual({
+      before: null,
+      after: expect.objectContaining({ type: "added", content: "b" }),
+    });
+
+    const deleted = toSplitRows(diffLines(lines("a", "b"), lines("a")));
+    expect(deleted[1]).toEqual({
+      before: expect.objectContaining({ type: "removed", content: "b" }),
+      after: null,
+    });
+  });
+
+  it("shows a context line on both sides", () => {
+    const rows = toSplitRows(diffLines("same", "same"));
+    expect(rows).toHaveLength(1);
+    expect(rows[0].before).toBe(rows[0].after);
+  });
+
+  it("has no rows for empty input", () => {
+    expect(toSplitRows(diffLines("", ""))).toEqual([]);
+  });
+});
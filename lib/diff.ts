@@ -0,0 +1,114 @@
+// Line diff for CodeDiff. Snippets are a few dozen lines at most, so a plain
+// LCS table is fast enough and keeps the output easy to follow.
+
+export type DiffLineType = "context" | "added" | "removed";
+
+export type DiffLine = {
+  type: DiffLineType;
+  content: string;
+  // 1-based line in the before/after snippet, missing on the side it's not in
+  beforeLine?: number;
+  afterLine?: number;
+};
+
+export type SplitDiffRow = {
+  before: DiffLine | null;
+  after: DiffLine | null;
+};
+
+// An empty snippet has no lines, not one blank line
+const toLines = (text: string) => (text === "" ? [] : text.split("\n"));
+
+export const diffLines = (before: string, after: string) => {
+  const a = toLines(before);
+  const b = toLines(after);
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({
+        type: "context",
+        content: a[i],
+        beforeLine: i + 1,
+        afterLine: j + 1,
+      });
+      i++;
+      j++;
+    } else if (
+      j < b.length &&
+      (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])
+    ) {
+      lines.push({ type: "added", content: b[j], afterLine: j + 1 });
+      j++;
+    } else {
+      lines.push({ type: "removed", content: a[i], beforeLine: i + 1 });
+      i++;
+    }
+  }
+
+  // Show removals before additions inside each changed hunk
+  for (let start = 0; start < lines.length; start++) {
+    if (lines[start].type === "context") {
+      continue;
+    }
+    let end = start;
+    while (end < lines.length && lines[end].type !== "context") {
+      end++;
+    }
+    const hunk = lines.slice(start, end);
+    lines.splice(
+      start,
+      hunk.length,
+      ...hunk.filter((line) => line.type === "removed"),
+      ...hunk.filter((line) => line.type === "added")
+    );
+    start = end;
+  }
+
+  return lines;
+};
+
+// Pair each hunk's removed lines with its added lines side by side
+export const toSplitRows = (lines: DiffLine[]) => {
+  const rows: SplitDiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ before: removed[k] ?? null, after: added[k] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === "removed") {
+      removed.push(line);
+    } else if (line.type === "added") {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ before: line, after: line });
+    }
+  }
+  flush();
+
+  return rows;
+};
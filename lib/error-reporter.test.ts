@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createErrorReporter,
+  createMemoryTransport,
+} from "@/lib/error-reporter";
+
+// The transport is called after the report is stored, in a microtask
+const flushTransport = () => new Promise((resolve) => setTimeout(resolve));
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("createErrorReporter", () => {
+  it("dedupes repeats of the same error into one report", async () => {
+    const transport = createMemoryTransport();
+    const reporter = createErrorReporter({ transport });
+
+    reporter.report(new Error("Boom"), {
+      source: "boundary",
+      componentStack: "at Page",
+    });
+    reporter.report(new Error("Boom"), {
+      source: "boundary",
+      componentStack: "at Page",
+    });
+    await flushTransport();
+
+    const [report] = reporter.getReports();
+    expect(reporter.getReports()).toHaveLength(1);
+    expect(report.count).toBe(2);
+    expect(report.lastSeen).toBeGreaterThanOrEqual(report.firstSeen);
+    // Repeats only bump the count, the transport hears about it once
+    expect(transport.reports).toHaveLength(1);
+  });
+
+  it("keeps the same message from another component stack apart", async () => {
+    const transport = createMemoryTransport();
+    const reporter = createErrorReporter({ transport });
+
+    reporter.report(new Error("Boom"), {
+      source: "boundary",
+      componentStack: "at Page",
+    });
+    reporter.report(new Error("Boom"), {
+      source: "boundary",
+      componentStack: "at Sidebar",
+    });
+    await flushTransport();
+
+    expect(reporter.getReports().map((report) => report.componentStack)).toEqual(
+      ["at Sidebar", "at Page"]
+    );
+    expect(transport.reports).toHaveLength(2);
+  });
+
+  it("records non-Error values and the chapter they happened on", () => {
+    const reporter = createErrorReporter({
+      getChapterId: () => "chapter-15",
+    });
+
+    reporter.report("plain string", { source: "unhandledrejection" });
+
+    expect(reporter.getReports()[0]).toMatchObject({
+      message: "plain string",
+      source: "unhandledrejection",
+      componentStack: null,
+      chapterId: "chapter-15",
+      count: 1,
+    });
+  });
+
+  it("notifies subscribers and empties on clear", () => {
+    const reporter = createErrorReporter();
+    const listener = vi.fn();
+    reporter.subscribe(listener);
+
+    reporter.report(new Error("Boom"), { source: "window" });
+    reporter.clear();
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(reporter.getReports()).toEqual([]);
+  });
+
+  it("falls back to console.warn when the transport throws", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const sendError = new Error("offline");
+    const reporter = createErrorReporter({
+      transport: {
+        send: () => {
+          throw sendError;
+        },
+      },
+    });
+
+    reporter.report(new Error("Boom"), { source: "window" });
+    await flushTransport();
+
+    expect(warn).toHaveBeenCalledWith("Error transport failed:", sendError);
+    // The failure isn't reported as an error of its own
+    expect(reporter.getReports()).toHaveLength(1);
+  });
+
+  it("falls back to console.warn when the transport rejects", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const sendError = new Error("500");
+    const reporter = createErrorReporter({
+      transport: { send: () => Promise.reject(sendError) },
+    });
+
+    reporter.report(new Error("Boom"), { source: "window" });
+    await flushTransport();
+
+    expect(warn).toHaveBeenCalledWith("Error transport failed:", sendError);
+  });
+});
+
+describe("createMemoryTransport", () => {
+  it("keeps every report it is sent until cleared", async () => {
+    const transport = createMemoryTransport();
+    const reporter = createErrorReporter({ transport });
+
+    reporter.report(new Error("One"), { source: "window" });
+    reporter.report(new Error("Two"), { source: "window" });
+    await flushTransport();
+    expect(transport.reports.map((report) => report.message)).toEqual([
+      "One",
+      "Two",
+    ]);
+
+    transport.clear();
+    expect(transport.reports).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+export type ErrorSource = "boundary" | "window" | "unhandledrejection";
+
+export type ErrorReport = {
+  // Dedupe key: the same message from the same component stack is one report
+  id: string;
+  message: string;
+  stack: string | null;
+  componentStack: string | null;
+  source: ErrorSource;
+  // Chapter the reader was on when it first happened, e.g. "chapter-15"
+  chapterId: string | null;
+  firstSeen: number;
+  lastSeen: number;
+  count: number;
+};
+
+// Where reports go besides the in-app drawer, e.g. a logging backend
+export type ErrorTransport = {
+  send: (report: ErrorReport) => void | Promise<void>;
+};
+
+export type ErrorReporterStore = {
+  subscribe: (listener: () => void) => () => void;
+  getReports: () => readonly ErrorReport[];
+  report: (
+    error: unknown,
+    details: { source: ErrorSource; componentStack?: string | null }
+  ) => void;
+  clear: () => void;
+};
+
+export const EMPTY_ERROR_REPORTS: readonly ErrorReport[] = [];
+
+export type MemoryTransport = ErrorTransport & {
+  reports: readonly ErrorReport[];
+  clear: () => void;
+};
+
+// Keeps every report it is sent, for tests and local debugging
+export const createMemoryTransport = (): MemoryTransport => {
+  const reports: ErrorReport[] = [];
+
+  return {
+    reports,
+    send: (report: ErrorReport) => {
+      reports.push(report);
+    },
+    clear: () => {
+      reports.length = 0;
+    },
+  };
+};
+
+const toError = (error: unknown) =>
+  error instanceof Error ? error : new Error(String(error));
+
+type ErrorReporterOptions = {
+  transport?: ErrorTransport;
+  getChapterId?: () => string | null;
+};
+
+// Collects errors from every source into one deduplicated list. Each distinct
+// error is sent to the transport once, repeats only bump its count.
+export const createErrorReporter = ({
+  transport,
+  getChapterId = () => null,
+}: ErrorReporterOptions = {}): ErrorReporterStore => {
+  let reports = EMPTY_ERROR_REPORTS;
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    getReports: () => reports,
+    report: (error, { source, componentStack = null }) => {
+      const { message, stack } = toError(error);
+      const id = `${message}\n${componentStack ?? ""}`;
+      const now = Date.now();
+      const existing = reports.find((report) => report.id === id);
+
+      if (existing) {
+        reports = reports.map((report) =>
+          report === existing
+            ? { ...report, lastSeen: now, count: report.count + 1 }
+            : report
+        );
+        notify();
+        return;
+      }
+
+      const report: ErrorReport = {
+        id,
+        message,
+        stack: stack ?? null,
+        componentStack,
+        source,
+        chapterId: getChapterId(),
+        firstSeen: now,
+        lastSeen: now,
+        count: 1,
+      };
+      reports = [report, ...reports];
+      notify();
+
+      // A broken transport must not turn into another reported error
+      Promise.resolve()
+        .then(() => transport?.send(report))
+        .catch((sendError) =>
+          console.warn("Error transport failed:", sendError)
+        );
+    },
+    clear: () => {
+      reports = EMPTY_ERROR_REPORTS;
+      notify();
+    },
+  };
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  normalizeLanguage,
+  parseLineRanges,
+  tokenize,
+  type Token,
+  type TokenType,
+} from "@/lib/highlight";
+
+const sorted = (lines: Set<number>) => [...lines].sort((a, b) => a - b);
+
+// The type of the first token that is exactly `content`
+const typeOf = (lines: Token[][], content: string): TokenType | undefined =>
+  lines.flat().find((token) => token.content === content)?.type;
+
+describe("parseLineRanges", () => {
+  it("reads single lines and ranges", () => {
+    expect(sorted(parseLineRanges("3-5,9", 10))).toEqual([3, 4, 5, 9]);
+    expect(sorted(parseLineRanges(" 2 - 3 , 7 ", 10))).toEqual([2, 3, 7]);
+  });
+
+  it("returns nothing without ranges", () => {
+    expect(parseLineRanges(undefined, 10).size).toBe(0);
+    expect(parseLineRanges("", 10).size).toBe(0);
+  });
+
+  it("clamps ranges to the snippet's lines", () => {
+    expect(sorted(parseLineRanges("8-12", 10))).toEqual([8, 9, 10]);
+    expect(sorted(parseLineRanges("0-2", 10))).toEqual([1, 2]);
+    expect(parseLineRanges("11,20-30", 10).size).toBe(0);
+  });
+
+  it("skips a range that ends before it starts", () => {
+    expect(sorted(parseLineRanges("5-3,7", 10))).toEqual([7]);
+  });
+
+  it("skips anything that isn't a line number", () => {
+    expect(sorted(parseLineRanges("a,3-,-2,1.5,2-4-6,4", 10))).toEqual([4]);
+  });
+});
+
+describe("normalizeLanguage", () => {
+  it("maps aliases and rejects unknown languages", () => {
+    expect(normalizeLanguage("TypeScript")).toBe("ts");
+    expect(normalizeLanguage("jsx")).toBe("tsx");
+    expect(normalizeLanguage("sh")).toBe("bash");
+    expect(normalizeLanguage("python")).toBeNull();
+    expect(normalizeLanguage()).toBeNull();
+  });
+});
+
+describe("tokenize", () => {
+  it("returns one token list per line", () => {
+    const lines = tokenize("const a = 1;\n\nreturn a;", "ts");
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toEqual([]);
+  });
+
+  it("keeps the source text intact", () => {
+    const code = 'const label = `count: ${count}`; // "quoted"\nfoo(1);';
+    const lines = tokenize(code, "tsx");
+
+    expect(
+      lines
+        .map((line) => line.map((token) => token.content).join(""))
+        .join("\n")
+    ).toBe(code);
+  });
+
+  it("colours keywords, strings, numbers, calls and comments", () => {
+    const lines = tokenize('const id = getId("a", 42); // note', "ts");
+
+    expect(typeOf(lines, "const")).toBe("keyword");
+    expect(typeOf(lines, '"a"')).toBe("string");
+    expect(typeOf(lines, "42")).toBe("number");
+    expect(typeOf(lines, "getId")).toBe("function");
+    expect(typeOf(lines, "// note")).toBe("comment");
+  });
+
+  it("tells JSX tags and attributes from generics", () => {
+    const lines = tokenize(
+      'const [a] = useState<string>("");\n<Button onClick={go}>',
+      "tsx"
+    );
+
+    expect(typeOf(lines, "Button")).toBe("tag");
+    expect(typeOf(lines, "onClick")).toBe("attr");
+    expect(typeOf(lines, "string")).not.toBe("tag");
+  });
+
+  it("splits a multi-line comment at its line breaks", () => {
+    const lines = tokenize("/* one\ntwo */\nx", "ts");
+
+    expect(lines[0]).toEqual([{ type: "comment", content: "/* one" }]);
+    expect(lines[1]).toEqual([{ type: "comment", content: "two */" }]);
+  });
+
+  it("colours css and bash", () => {
+    const css = tokenize(".card { color: #fff; }", "css");
+    expect(typeOf(css, ".card")).toBe("tag");
+    expect(typeOf(css, "color")).toBe("property");
+    expect(typeOf(css, "#fff")).toBe("number");
+
+    const bash = tokenize("npm install --save-dev $PKG # dev only", "bash");
+    expect(typeOf(bash, "npm")).toBe("function");
+    expect(typeOf(bash, "--save-dev")).toBe("attr");
+    expect(typeOf(bash, "$PKG")).toBe("variable");
+    expect(typeOf(bash, "# dev only")).toBe("comment");
+  });
+
+  it("leaves code in an unknown language plain", () => {
+    expect(tokenize("print(1)\nx", null)).toEqual([
+      [{ type: "plain", content: "print(1)" }],
+      [{ type: "plain", content: "x" }],
+    ]);
+  });
+});
@@ -0,0 +1,206 @@
+// Lightweight regex tokenizer for the snippets shown in CodeBlock. It is not a
+// parser: it only needs to colour the short, well-formatted examples the
+// chapters use, without shipping a full highlighting library to the client.
+
+export type Language = "tsx" | "ts" | "js" | "css" | "bash";
+
+export type TokenType =
+  | "plain"
+  | "comment"
+  | "string"
+  | "keyword"
+  | "number"
+  | "function"
+  | "tag"
+  | "attr"
+  | "property"
+  | "variable"
+  | "punctuation";
+
+export type Token = {
+  type: TokenType;
+  content: string;
+};
+
+type Rule = [TokenType, RegExp];
+
+const languageAliases: Record<string, Language> = {
+  tsx: "tsx",
+  jsx: "tsx",
+  ts: "ts",
+  typescript: "ts",
+  js: "js",
+  javascript: "js",
+  css: "css",
+  bash: "bash",
+  sh: "bash",
+  shell: "bash",
+};
+
+const jsKeywords =
+  /\b(?:abstract|as|async|await|break|case|catch|class|const|continue|default|delete|do|else|enum|export|extends|false|finally|for|from|function|if|implements|import|in|instanceof|interface|keyof|let|new|null|of|private|protected|public|readonly|return|satisfies|static|super|switch|this|throw|true|try|type|typeof|undefined|var|void|while|yield)\b/;
+
+const jsRules: Rule[] = [
+  ["comment", /\/\/[^\n]*|\/\*[\s\S]*?\*\//],
+  ["string", /`(?:\\[\s\S]|[^\\`])*`|"(?:\\.|[^\\"\n])*"|'(?:\\.|[^\\'\n])*'/],
+  ["keyword", jsKeywords],
+  ["number", /\b0x[\da-fA-F]+\b|\b\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?n?\b/],
+  ["function", /[A-Za-z_$][\w$]*(?=\s*\()/],
+  ["plain", /[A-Za-z_$][\w$]*/],
+  ["punctuation", /[{}()[\];,.<>/=+\-*!&|?:%^~]/],
+];
+
+const tsxRules: Rule[] = [
+  jsRules[0],
+  jsRules[1],
+  // Component or element name right after "<" or "</", but not generics
+  // like useState<string> where "<" follows an identifier
+  ["tag", /(?<=(?:^|[^\w$])<\/?)[A-Za-z][\w.]*/],
+  ["attr", /[A-Za-z_][\w-]*(?==[{"'])/],
+  ...jsRules.slice(2),
+];
+
+const cssRules: Rule[] = [
+  ["comment", /\/\*[\s\S]*?\*\//],
+  ["string", /"(?:\\.|[^\\"\n])*"|'(?:\\.|[^\\'\n])*'/],
+  ["keyword", /@[\w-]+|!important\b/],
+  // A declaration name: followed by ":" and a value ending in ";"
+  ["property", /[\w-]+(?=\s*:[^;{}]*;)/],
+  ["number", /#[\da-fA-F]{3,8}\b|-?\d*\.?\d+(?:px|rem|em|%|vh|vw|ms|s|deg|fr)?/],
+  ["function", /[\w-]+(?=\()/],
+  // Anything else before an opening brace is part of a selector
+  ["tag", /[.#:]*[\w-]+(?=[^;{}]*\{)/],
+  ["plain", /[\w-]+/],
+  ["punctuation", /[{}()[\];:,.>+~*=]/],
+];
+
+const bashRules: Rule[] = [
+  ["comment", /(?<=^|\s)#[^\n]*/m],
+  ["string", /"(?:\\.|[^\\"])*"|'[^']*'/],
+  ["variable", /\$\{[^}\n]*\}|\$(?:\w+|[@#?$!*-])/],
+  ["keyword", /\b(?:case|do|done|elif|else|esac|export|fi|for|function|if|in|local|return|then|while)\b/],
+  ["attr", /(?<=\s)--?[\w-]+/],
+  // First word of a command: start of line or after a pipe/separator
+  ["function", /(?<=(?:^|[|;&(])\s*)[A-Za-z_./][\w./-]*/m],
+  ["number", /\b\d+\b/],
+  ["plain", /[\w./-]+/],
+  ["punctuation", /[|&;()<>[\]{}=]/],
+];
+
+const rulesByLanguage: Record<Language, Rule[]> = {
+  tsx: tsxRules,
+  ts: jsRules,
+  js: jsRules,
+  css: cssRules,
+  bash: bashRules,
+};
+
+// Sticky copies so each rule only matches at the current position
+const stickyRules = Object.fromEntries(
+  Object.entries(rulesByLanguage).map(([language, rules]) => [
+    language,
+    rules.map(
+      ([type, regex]): Rule => [
+        type,
+        new RegExp(regex.source, `${regex.flags.replace("y", "")}y`),
+      ]
+    ),
+  ])
+) as Record<Language, Rule[]>;
+
+export const normalizeLanguage = (language?: string): Language | null =>
+  (language && languageAliases[language.toLowerCase()]) || null;
+
+const pushToken = (tokens: Token[], type: TokenType, content: string) => {
+  const last = tokens[tokens.length - 1];
+  if (last && last.type === type) {
+    last.content += content;
+  } else {
+    tokens.push({ type, content });
+  }
+};
+
+const tokenizeText = (code: string, language: Language) => {
+  const rules = stickyRules[language];
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < code.length) {
+    let matched = false;
+
+    for (const [type, regex] of rules) {
+      regex.lastIndex = position;
+      const match = regex.exec(code);
+      if (match && match[0].length > 0) {
+        pushToken(tokens, type, match[0]);
+        position += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+
+    // Whitespace and anything no rule knows about
+    if (!matched) {
+      pushToken(tokens, "plain", code[position]);
+      position += 1;
+    }
+  }
+
+  return tokens;
+};
+
+// Tokens grouped per line, so multi-line comments and template strings are
+// split at line breaks and every line can be rendered (and emphasised) alone
+export const tokenize = (code: string, language: Language | null) => {
+  const tokens: Token[] = language
+    ? tokenizeText(code, language)
+    : [{ type: "plain", content: code }];
+  const lines: Token[][] = [[]];
+
+  for (const token of tokens) {
+    token.content.split("\n").forEach((part, index) => {
+      if (index > 0) {
+        lines.push([]);
+      }
+      if (part) {
+        lines[lines.length - 1].push({ type: token.type, content: part });
+      }
+    });
+  }
+
+  return lines;
+};
+
+// "", " " and "1.5" aren't line numbers; Number() would read "" as 0
+const toLineNumber = (value: string) =>
+  /^\s*\d+\s*$/.test(value) ? Number(value) : NaN;
+
+// "3-5,9" -> {3, 4, 5, 9}, 1-based like the line numbers readers see. Ranges
+// are clamped to the snippet's lineCount, and a backwards one like "5-3" is
+// skipped rather than guessed at
+export const parseLineRanges = (
+  ranges: string | undefined,
+  lineCount: number
+) => {
+  const lines = new Set<number>();
+
+  for (const range of ranges?.split(",") ?? []) {
+    const parts = range.split("-");
+    if (parts.length > 2) {
+      continue;
+    }
+    const [start, end = start] = parts.map(toLineNumber);
+    if (Number.isNaN(start) || Number.isNaN(end) || end < start) {
+      continue;
+    }
+    for (
+      let line = Math.max(start, 1);
+      line <= Math.min(end, lineCount);
+      line++
+    ) {
+      lines.add(line);
+    }
+  }
+
+  return lines;
+};
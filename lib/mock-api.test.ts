@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  mockRequest,
+  resetMockApiSettings,
+  updateMockApiSettings,
+} from "@/lib/mock-api";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  resetMockApiSettings();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("mockRequest", () => {
+  it("resolves with the response after the endpoint's latency", async () => {
+    const { delay, response } = mockRequest("sidebar");
+    const onResolve = vi.fn();
+    response.then(onResolve);
+
+    await vi.advanceTimersByTimeAsync(delay - 1);
+    expect(onResolve).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onResolve).toHaveBeenCalled();
+  });
+
+  it("rejects with a 500 when the request is set to fail", async () => {
+    updateMockApiSettings({ failureRate: 1 });
+    const { willFail, response } = mockRequest("issue");
+
+    expect(willFail).toBe(true);
+    const settled = expect(response).rejects.toThrow("500: issue request failed");
+    await vi.runAllTimersAsync();
+    await settled;
+  });
+
+  it("rejects with an AbortError when aborted in flight", async () => {
+    const controller = new AbortController();
+    const { response } = mockRequest("sidebar", { signal: controller.signal });
+
+    controller.abort();
+    await expect(response).rejects.toMatchObject({ name: "AbortError" });
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("rejects straight away when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const { response } = mockRequest("sidebar", { signal: controller.signal });
+
+    await expect(response).rejects.toMatchObject({ name: "AbortError" });
+    // The request never starts
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("stops listening for abort once the request settles", async () => {
+    const controller = new AbortController();
+    const removeListener = vi.spyOn(controller.signal, "removeEventListener");
+    const { response } = mockRequest("sidebar", { signal: controller.signal });
+
+    await vi.runAllTimersAsync();
+    await response;
+    expect(removeListener).toHaveBeenCalledWith("abort", expect.any(Function));
+
+    // A late abort no longer has anything to reject
+    controller.abort();
+    await expect(response).resolves.toBeDefined();
+  });
+});
+
+describe("stored settings", () => {
+  // A fresh module, so the settings are read from the stored value again
+  const loadWithStored = async (stored: string) => {
+    vi.resetModules();
+    vi.stubGlobal("window", {
+      localStorage: { getItem: () => stored, setItem: () => {} },
+    });
+    return import("@/lib/mock-api");
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("restores valid settings", async () => {
+    const { getMockApiSettings } = await loadWithStored(
+      JSON.stringify({
+        endpoints: { sidebar: { latency: 200, jitter: 50 } },
+        failureRate: 0.25,
+        seed: 7,
+      })
+    );
+
+    const settings = getMockApiSettings();
+    expect(settings.endpoints.sidebar).toEqual({ latency: 200, jitter: 50 });
+    expect(settings.endpoints.issue).toEqual({ latency: 1000, jitter: 0 });
+    expect(settings).toMatchObject({ failureRate: 0.25, seed: 7 });
+  });
+
+  it("falls back to the default for each invalid field", async () => {
+    const { DEFAULT_MOCK_API_SETTINGS, getMockApiSettings } =
+      await loadWithStored(
+        JSON.stringify({
+          endpoints: {
+            sidebar: { latency: -100, jitter: "50" },
+            issue: { latency: 300, jitter: null },
+            comments: "fast",
+            unknown: { latency: 1, jitter: 1 },
+          },
+          failureRate: 1.5,
+          seed: "7",
+        })
+      );
+
+    const settings = getMockApiSettings();
+    expect(settings.endpoints.sidebar).toEqual(
+      DEFAULT_MOCK_API_SETTINGS.endpoints.sidebar
+    );
+    expect(settings.endpoints.issue).toEqual({ latency: 300, jitter: 0 });
+    expect(settings.endpoints.comments).toEqual(
+      DEFAULT_MOCK_API_SETTINGS.endpoints.comments
+    );
+    expect(settings.endpoints).not.toHaveProperty("unknown");
+    expect(settings).toMatchObject({
+      failureRate: DEFAULT_MOCK_API_SETTINGS.failureRate,
+      seed: DEFAULT_MOCK_API_SETTINGS.seed,
+    });
+  });
+
+  it("uses the defaults when the stored value isn't an object", async () => {
+    for (const stored of ["[1, 2]", "null", "42", "{not json"]) {
+      const { DEFAULT_MOCK_API_SETTINGS, getMockApiSettings } =
+        await loadWithStored(stored);
+      expect(getMockApiSettings()).toEqual(DEFAULT_MOCK_API_SETTINGS);
+    }
+  });
+});
@@ -0,0 +1,303 @@
+// ===========================================
+// DATA
+// ===========================================
+
+export const sidebarData = [
+  { id: 1, name: "Dashboard" },
+  { id: 2, name: "Projects" },
+  { id: 3, name: "Settings" },
+];
+
+export const issueData = {
+  id: "ISSUE-123",
+  title: "Fix login bug",
+  description: "Users cannot login with special characters in password",
+  status: "In Progress",
+  assignee: "John Doe",
+};
+
+export const commentsData = [
+  { id: 1, author: "Alice", text: "I can reproduce this issue" },
+  { id: 2, author: "Bob", text: "Working on a fix now" },
+  { id: 3, author: "Charlie", text: "Fixed in PR #456" },
+];
+
+export type Issue = { id: string; title: string; description: string };
+
+export const issuesData: Record<string, Issue> = {
+  "1": {
+    id: "ISSUE-1",
+    title: "Login Bug",
+    description: "Users cannot login with special characters",
+  },
+  "2": {
+    id: "ISSUE-2",
+    title: "Dashboard Crash",
+    description: "Dashboard crashes on mobile devices",
+  },
+  "3": {
+    id: "ISSUE-3",
+    title: "Payment Failed",
+    description: "Payment processing times out randomly",
+  },
+};
+
+type MockResponses = {
+  sidebar: typeof sidebarData;
+  issue: typeof issueData;
+  comments: typeof commentsData;
+  "issues/1": Issue;
+  "issues/2": Issue;
+  "issues/3": Issue;
+};
+
+export type MockPath = keyof MockResponses;
+
+// "2" -> "issues/2", for tabs that keep the issue id as a string
+export const issuePath = (id: string) =>
+  `issues/${id}` as Extract<MockPath, `issues/${string}`>;
+
+const responses: MockResponses = {
+  sidebar: sidebarData,
+  issue: issueData,
+  comments: commentsData,
+  "issues/1": issuesData["1"],
+  "issues/2": issuesData["2"],
+  "issues/3": issuesData["3"],
+};
+
+// ===========================================
+// SETTINGS
+// ===========================================
+
+export type EndpointSettings = {
+  // Base response time in ms
+  latency: number;
+  // Each response takes latency ± up to this many ms
+  jitter: number;
+};
+
+export type MockApiSettings = {
+  endpoints: Record<MockPath, EndpointSettings>;
+  // Chance from 0 to 1 that a request fails
+  failureRate: number;
+  // Same seed, same delays and failures for the nth request to each path
+  seed: number;
+};
+
+// Chapter 13 relies on fixed 0.5s/1s/1.5s fetches, chapter 14 on issues
+// resolving in an unpredictable 0.5-2.5s
+export const DEFAULT_MOCK_API_SETTINGS: MockApiSettings = {
+  endpoints: {
+    sidebar: { latency: 500, jitter: 0 },
+    issue: { latency: 1000, jitter: 0 },
+    comments: { latency: 1500, jitter: 0 },
+    "issues/1": { latency: 1500, jitter: 1000 },
+    "issues/2": { latency: 1500, jitter: 1000 },
+    "issues/3": { latency: 1500, jitter: 1000 },
+  },
+  failureRate: 0,
+  seed: 1,
+};
+
+export type MockApiPreset = {
+  label: string;
+  endpoints: Partial<Record<MockPath, EndpointSettings>>;
+};
+
+// Open issue 1 then issue 2: issue 1 answers last and overwrites issue 2
+export const RACE_CONDITION_PRESET: MockApiPreset = {
+  label: "Issue 1 slow, issue 2 fast",
+  endpoints: {
+    "issues/1": { latency: 2500, jitter: 0 },
+    "issues/2": { latency: 300, jitter: 0 },
+  },
+};
+
+const STORAGE_KEY = "react-internals:mock-api-settings";
+
+const listeners = new Set<() => void>();
+let cached: MockApiSettings | null = null;
+// How many requests each path has served since the settings last changed
+let requestCounts = new Map<MockPath, number>();
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNumberFrom =
+  (min: number, max: number) =>
+  (value: unknown): value is number =>
+    typeof value === "number" && value >= min && value <= max;
+
+const isDuration = isNumberFrom(0, Number.MAX_SAFE_INTEGER);
+const isRate = isNumberFrom(0, 1);
+const isSeed = isNumberFrom(-Number.MAX_SAFE_INTEGER, Number.MAX_SAFE_INTEGER);
+
+// Stored by an older version or edited by hand: keep each field that still
+// makes sense, fall back to the default for the rest
+const deserialize = (stored: unknown): MockApiSettings => {
+  const settings: Record<string, unknown> = isRecord(stored) ? stored : {};
+  const endpoints: Record<string, unknown> = isRecord(settings.endpoints)
+    ? settings.endpoints
+    : {};
+
+  const endpointSettings = (
+    path: MockPath,
+    fallback: EndpointSettings
+  ): EndpointSettings => {
+    const endpoint = Object.hasOwn(endpoints, path) ? endpoints[path] : null;
+    const { latency, jitter }: Record<string, unknown> = isRecord(endpoint)
+      ? endpoint
+      : {};
+    return {
+      latency: isDuration(latency) ? latency : fallback.latency,
+      jitter: isDuration(jitter) ? jitter : fallback.jitter,
+    };
+  };
+
+  return {
+    endpoints: Object.fromEntries(
+      Object.entries(DEFAULT_MOCK_API_SETTINGS.endpoints).map(
+        ([path, fallback]) => [
+          path,
+          endpointSettings(path as MockPath, fallback),
+        ]
+      )
+    ) as Record<MockPath, EndpointSettings>,
+    failureRate: isRate(settings.failureRate)
+      ? settings.failureRate
+      : DEFAULT_MOCK_API_SETTINGS.failureRate,
+    seed: isSeed(settings.seed) ? settings.seed : DEFAULT_MOCK_API_SETTINGS.seed,
+  };
+};
+
+const read = (): MockApiSettings => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+      return DEFAULT_MOCK_API_SETTINGS;
+    }
+    return deserialize(JSON.parse(stored));
+  } catch {
+    // Corrupt JSON or storage disabled, start from the defaults
+    return DEFAULT_MOCK_API_SETTINGS;
+  }
+};
+
+export const getMockApiSettings = () => {
+  if (!cached) {
+    cached = read();
+  }
+  return cached;
+};
+
+const save = (settings: MockApiSettings) => {
+  cached = settings;
+  requestCounts = new Map();
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Still applies for this session when storage is unavailable
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const updateMockApiSettings = (
+  patch: Partial<Omit<MockApiSettings, "endpoints">> & {
+    endpoints?: Partial<Record<MockPath, EndpointSettings>>;
+  }
+) => {
+  const current = getMockApiSettings();
+  save({
+    ...current,
+    ...patch,
+    endpoints: { ...current.endpoints, ...patch.endpoints },
+  });
+};
+
+export const resetMockApiSettings = () => save(DEFAULT_MOCK_API_SETTINGS);
+
+// Replay the same delays and failures from the first request again
+export const restartMockApiSequence = () => {
+  requestCounts = new Map();
+};
+
+export const subscribeToMockApiSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// ===========================================
+// REQUESTS
+// ===========================================
+
+// FNV-1a, to turn seed + path + request number into a PRNG seed
+const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small, fast and good enough for demo timings
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export type MockRequest<T> = {
+  // Known up front, so demos can log how long the request will take
+  delay: number;
+  willFail: boolean;
+  response: Promise<T>;
+};
+
+export const mockRequest = <P extends MockPath>(
+  path: P,
+  { signal }: { signal?: AbortSignal } = {}
+): MockRequest<MockResponses[P]> => {
+  const { endpoints, failureRate, seed } = getMockApiSettings();
+  const { latency, jitter } = endpoints[path];
+  const count = requestCounts.get(path) ?? 0;
+  requestCounts.set(path, count + 1);
+
+  const random = createRandom(hashString(`${seed}:${path}:${count}`));
+  const delay = Math.max(0, latency + (random() * 2 - 1) * jitter);
+  const willFail = random() < failureRate;
+
+  const response = new Promise<MockResponses[P]>((resolve, reject) => {
+    // Like fetch, an already aborted signal rejects straight away
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      if (willFail) {
+        reject(new Error(`500: ${path} request failed`));
+      } else {
+        resolve(responses[path]);
+      }
+    }, delay);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+  return { delay, willFail, response };
+};
+
+export const mockFetch = <P extends MockPath>(
+  path: P,
+  options?: { signal?: AbortSignal }
+) => mockRequest(path, options).response;
@@ -0,0 +1,286 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createQueryCache } from "@/lib/query-cache";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// A fetcher whose calls each wait for the test to settle them
+const createDeferredFetcher = <T>() => {
+  const calls: {
+    resolve: (value: T) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+  const fetcher = vi.fn(
+    () =>
+      new Promise<T>((resolve, reject) => {
+        calls.push({ resolve, reject });
+      })
+  );
+  return { fetcher, calls };
+};
+
+describe("createQueryCache", () => {
+  it("shares one request between concurrent fetches of a key", async () => {
+    const cache = createQueryCache();
+    const { fetcher, calls } = createDeferredFetcher<string>();
+
+    const first = cache.fetchQuery("issue", fetcher);
+    const second = cache.fetchQuery("issue", fetcher);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(cache.getState("issue")).toMatchObject({
+      status: "pending",
+      isFetching: true,
+    });
+
+    calls[0].resolve("data");
+    await expect(first).resolves.toBe("data");
+    await expect(second).resolves.toBe("data");
+    expect(cache.getState("issue")).toMatchObject({
+      status: "success",
+      data: "data",
+      isFetching: false,
+    });
+  });
+
+  it("counts data as stale after staleTime", async () => {
+    const cache = createQueryCache();
+    expect(cache.isStale("issue", 1000)).toBe(true);
+
+    await cache.fetchQuery("issue", async () => "data");
+    expect(cache.isStale("issue", 1000)).toBe(false);
+
+    vi.advanceTimersByTime(999);
+    expect(cache.isStale("issue", 1000)).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(cache.isStale("issue", 1000)).toBe(true);
+  });
+
+  it("keeps stale data while revalidating, and when that fails", async () => {
+    const cache = createQueryCache();
+    await cache.fetchQuery("issue", async () => "old");
+    const { fetcher, calls } = createDeferredFetcher<string>();
+
+    const revalidation = cache.fetchQuery("issue", fetcher);
+    expect(cache.getState("issue")).toMatchObject({
+      status: "success",
+      data: "old",
+      isFetching: true,
+    });
+
+    calls[0].reject(new Error("503"));
+    await expect(revalidation).rejects.toThrow("503");
+    expect(cache.getState("issue")).toMatchObject({
+      status: "error",
+      data: "old",
+      error: new Error("503"),
+    });
+  });
+
+  it("retries with a doubling delay and counts the failures", async () => {
+    const cache = createQueryCache();
+    const fetcher = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error("first"))
+      .mockRejectedValueOnce(new Error("second"))
+      .mockResolvedValueOnce("data");
+
+    const result = cache.fetchQuery("issue", fetcher, {
+      retry: 2,
+      retryDelay: 100,
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(cache.getState("issue").failureCount).toBe(1);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(cache.getState("issue").failureCount).toBe(2);
+
+    // 200ms before the second retry
+    await vi.advanceTimersByTimeAsync(200);
+    await expect(result).resolves.toBe("data");
+    expect(cache.getState("issue")).toMatchObject({
+      status: "success",
+      failureCount: 0,
+    });
+  });
+
+  it("gives up after the last retry", async () => {
+    const cache = createQueryCache();
+    const fetcher = vi.fn(() => Promise.reject(new Error("down")));
+
+    const result = cache.fetchQuery("issue", fetcher, {
+      retry: 1,
+      retryDelay: 100,
+    });
+    const settled = expect(result).rejects.toThrow("down");
+    await vi.runAllTimersAsync();
+    await settled;
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(cache.getState("issue")).toMatchObject({
+      status: "error",
+      failureCount: 2,
+    });
+  });
+
+  describe("invalidate", () => {
+    it("refetches right away when something is subscribed", async () => {
+      const cache = createQueryCache();
+      const fetcher = vi.fn(async () => "data");
+      await cache.fetchQuery("issue", fetcher);
+      cache.subscribe("issue", () => {});
+
+      cache.invalidate("issue");
+      expect(cache.isStale("issue", Infinity)).toBe(true);
+      expect(fetcher).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(cache.isStale("issue", Infinity)).toBe(false);
+    });
+
+    it("only marks the key stale when nothing is subscribed", async () => {
+      const cache = createQueryCache();
+      const fetcher = vi.fn(async () => "data");
+      await cache.fetchQuery("issue", fetcher);
+
+      cache.invalidate("issue");
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      expect(cache.isStale("issue", Infinity)).toBe(true);
+    });
+
+    it("doesn't let a fetch already in flight count as fresh", async () => {
+      const cache = createQueryCache();
+      const { fetcher, calls } = createDeferredFetcher<string>();
+      cache.subscribe("issue", () => {});
+
+      const inFlight = cache.fetchQuery("issue", fetcher);
+      cache.invalidate("issue");
+      // Joins the request in flight rather than starting another
+      expect(fetcher).toHaveBeenCalledTimes(1);
+
+      calls[0].resolve("before the change");
+      await inFlight;
+      expect(cache.getState("issue")).toMatchObject({
+        data: "before the change",
+        isInvalidated: true,
+      });
+      // ...and fetches again once it has settled
+      expect(fetcher).toHaveBeenCalledTimes(2);
+
+      calls[1].resolve("after the change");
+      await vi.advanceTimersByTimeAsync(0);
+      expect(cache.getState("issue")).toMatchObject({
+        data: "after the change",
+        isInvalidated: false,
+      });
+    });
+
+    it("does nothing for a key that was never fetched", () => {
+      const cache = createQueryCache();
+      cache.invalidate("issue");
+      expect(cache.getState("issue").status).toBe("idle");
+    });
+  });
+
+  describe("prefetch", () => {
+    it("never rejects, the error ends up in the state", async () => {
+      const cache = createQueryCache();
+
+      await expect(
+        cache.prefetch("issue", () => Promise.reject(new Error("down")))
+      ).resolves.toBeUndefined();
+      expect(cache.getState("issue")).toMatchObject({
+        status: "error",
+        error: new Error("down"),
+      });
+    });
+
+    it("skips the fetch while the data is fresh", async () => {
+      const cache = createQueryCache();
+      const fetcher = vi.fn(async () => "data");
+
+      await cache.prefetch("issue", fetcher, { staleTime: 1000 });
+      await cache.prefetch("issue", fetcher, { staleTime: 1000 });
+      expect(fetcher).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1000);
+      await cache.prefetch("issue", fetcher, { staleTime: 1000 });
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("clear", () => {
+    it("notifies subscribers and forgets every key", async () => {
+      const cache = createQueryCache();
+      const listener = vi.fn();
+      await cache.fetchQuery("issue", async () => "data");
+      cache.subscribe("issue", listener);
+
+      cache.clear();
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(cache.getState("issue").status).toBe("idle");
+    });
+
+    it("drops a response that arrives after it", async () => {
+      const cache = createQueryCache();
+      const listener = vi.fn();
+      const { fetcher, calls } = createDeferredFetcher<string>();
+      cache.subscribe("issue", listener);
+
+      const inFlight = cache.fetchQuery("issue", fetcher);
+      cache.clear();
+      listener.mockClear();
+
+      calls[0].resolve("from before the clear");
+      // Whoever asked for it still gets it...
+      await expect(inFlight).resolves.toBe("from before the clear");
+      // ...but it doesn't come back into the cache
+      expect(cache.getState("issue")).toMatchObject({
+        status: "idle",
+        data: undefined,
+      });
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("lets the next fetch start over instead of joining the old one", async () => {
+      const cache = createQueryCache();
+      const { fetcher, calls } = createDeferredFetcher<string>();
+
+      cache.fetchQuery("issue", fetcher);
+      cache.clear();
+      const next = cache.fetchQuery("issue", fetcher);
+      expect(fetcher).toHaveBeenCalledTimes(2);
+
+      calls[1].resolve("new");
+      calls[0].resolve("old");
+      await next;
+      await vi.advanceTimersByTimeAsync(0);
+      expect(cache.getState("issue").data).toBe("new");
+    });
+
+    it("stops retrying a fetch it cleared", async () => {
+      const cache = createQueryCache();
+      const fetcher = vi.fn(() => Promise.reject(new Error("down")));
+
+      const result = cache.fetchQuery("issue", fetcher, {
+        retry: 3,
+        retryDelay: 100,
+      });
+      const settled = expect(result).rejects.toThrow("down");
+      await vi.advanceTimersByTimeAsync(0);
+      cache.clear();
+      await vi.runAllTimersAsync();
+      await settled;
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      expect(cache.getState("issue").status).toBe("idle");
+    });
+  });
+});
@@ -0,0 +1,264 @@
+export type QueryStatus = "idle" | "pending" | "success" | "error";
+
+export type QueryState<T = unknown> = {
+  status: QueryStatus;
+  // Kept through refetches and failed revalidations (stale-while-revalidate)
+  data: T | undefined;
+  error: Error | null;
+  // When data last arrived, 0 if it never did
+  updatedAt: number;
+  isFetching: boolean;
+  // Failed attempts of the current fetch, reset when one succeeds
+  failureCount: number;
+  // Set by invalidate(): stale however recent updatedAt is
+  isInvalidated: boolean;
+};
+
+export type Fetcher<T> = () => Promise<T>;
+
+export type FetchOptions = {
+  // Extra attempts after the first failure
+  retry?: number;
+  // Delay before the first retry, doubled for each one after it
+  retryDelay?: number;
+};
+
+export type PrefetchOptions = FetchOptions & {
+  // Skip the fetch while cached data is younger than this
+  staleTime?: number;
+};
+
+export type QueryCache = {
+  subscribe: (key: string, listener: () => void) => () => void;
+  getState: <T>(key: string) => QueryState<T>;
+  // Starts a fetch, or joins the one already in flight for this key
+  fetchQuery: <T>(
+    key: string,
+    fetcher: Fetcher<T>,
+    options?: FetchOptions
+  ) => Promise<T>;
+  // Warms the cache before anything renders the key. Never rejects
+  prefetch: <T>(
+    key: string,
+    fetcher: Fetcher<T>,
+    options?: PrefetchOptions
+  ) => Promise<void>;
+  isStale: (key: string, staleTime: number) => boolean;
+  // Marks the query stale and refetches it if anything is subscribed
+  invalidate: (key: string) => void;
+  clear: () => void;
+};
+
+export const IDLE_QUERY_STATE: QueryState<never> = {
+  status: "idle",
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+  failureCount: 0,
+  isInvalidated: false,
+};
+
+type QueryEntry = {
+  state: QueryState;
+  promise: Promise<unknown> | null;
+  // Last fetcher used for the key, so invalidate() can refetch it
+  fetcher: Fetcher<unknown> | null;
+  options: FetchOptions;
+  // invalidate() during a fetch: its result is already out of date
+  isInvalidatedInFlight: boolean;
+};
+
+const toError = (error: unknown) =>
+  error instanceof Error ? error : new Error(String(error));
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const createQueryCache = (): QueryCache => {
+  const entries = new Map<string, QueryEntry>();
+  const listeners = new Map<string, Set<() => void>>();
+
+  const notify = (key: string) =>
+    listeners.get(key)?.forEach((listener) => listener());
+
+  const getEntry = (key: string) => {
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = {
+        state: IDLE_QUERY_STATE,
+        promise: null,
+        fetcher: null,
+        options: {},
+        isInvalidatedInFlight: false,
+      };
+      entries.set(key, entry);
+    }
+    return entry;
+  };
+
+  // False once clear() has dropped the entry
+  const isCurrent = (key: string, entry: QueryEntry) =>
+    entries.get(key) === entry;
+
+  // New object on every change so useSyncExternalStore sees it. Takes the
+  // entry rather than looking it up: a late write to an entry clear() has
+  // dropped goes nowhere instead of bringing it back
+  const setState = (
+    key: string,
+    entry: QueryEntry,
+    patch: Partial<QueryState>
+  ) => {
+    entry.state = { ...entry.state, ...patch };
+    if (isCurrent(key, entry)) {
+      notify(key);
+    }
+  };
+
+  const run = async <T>(
+    key: string,
+    entry: QueryEntry,
+    fetcher: Fetcher<T>,
+    { retry = 0, retryDelay = 500 }: FetchOptions
+  ) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const data = await fetcher();
+        setState(key, entry, {
+          status: "success",
+          data,
+          error: null,
+          updatedAt: Date.now(),
+          isFetching: false,
+          failureCount: 0,
+          isInvalidated: entry.isInvalidatedInFlight,
+        });
+        return data;
+      } catch (error) {
+        if (attempt >= retry) {
+          setState(key, entry, {
+            status: "error",
+            error: toError(error),
+            isFetching: false,
+            failureCount: attempt + 1,
+          });
+          throw error;
+        }
+        setState(key, entry, { failureCount: attempt + 1 });
+        await wait(retryDelay * 2 ** attempt);
+        // Cleared while waiting: nobody is left to retry for
+        if (!isCurrent(key, entry)) {
+          throw error;
+        }
+      }
+    }
+  };
+
+  // Refetch with the last fetcher, if anything is looking at the key
+  const refetchIfWatched = (key: string, entry: QueryEntry) => {
+    if (entry.fetcher && listeners.get(key)?.size) {
+      fetchQuery(key, entry.fetcher, entry.options).catch(() => {
+        // The error is in the query state
+      });
+    }
+  };
+
+  const fetchQuery = <T>(
+    key: string,
+    fetcher: Fetcher<T>,
+    options: FetchOptions = {}
+  ): Promise<T> => {
+    const entry = getEntry(key);
+    entry.fetcher = fetcher;
+    entry.options = options;
+
+    if (entry.promise) {
+      return entry.promise as Promise<T>;
+    }
+
+    setState(key, entry, {
+      status: entry.state.status === "success" ? "success" : "pending",
+      isFetching: true,
+      failureCount: 0,
+    });
+
+    const promise = run(key, entry, fetcher, options).finally(() => {
+      entry.promise = null;
+      if (entry.isInvalidatedInFlight) {
+        entry.isInvalidatedInFlight = false;
+        if (isCurrent(key, entry)) {
+          refetchIfWatched(key, entry);
+        }
+      }
+    });
+    entry.promise = promise;
+    return promise;
+  };
+
+  const isStale = (key: string, staleTime: number) => {
+    const state = entries.get(key)?.state;
+    return (
+      !state ||
+      state.isInvalidated ||
+      state.status !== "success" ||
+      Date.now() - state.updatedAt >= staleTime
+    );
+  };
+
+  return {
+    subscribe: (key, listener) => {
+      let keyListeners = listeners.get(key);
+      if (!keyListeners) {
+        keyListeners = new Set();
+        listeners.set(key, keyListeners);
+      }
+      keyListeners.add(listener);
+      return () => keyListeners.delete(listener);
+    },
+    getState: <T>(key: string) =>
+      (entries.get(key)?.state ?? IDLE_QUERY_STATE) as QueryState<T>,
+    fetchQuery,
+    prefetch: async (key, fetcher, { staleTime = 0, ...options } = {}) => {
+      if (!isStale(key, staleTime)) {
+        return;
+      }
+      try {
+        await fetchQuery(key, fetcher, options);
+      } catch {
+        // The error is in the query state, useQuery() retries on mount
+      }
+    },
+    isStale,
+    invalidate: (key) => {
+      const entry = entries.get(key);
+      if (!entry) {
+        return;
+      }
+      setState(key, entry, { isInvalidated: true });
+
+      // The fetch in flight may have read the old data: keep its result
+      // stale and fetch again once it settles
+      if (entry.promise) {
+        entry.isInvalidatedInFlight = true;
+        return;
+      }
+
+      // Nobody is looking: the next mount refetches instead
+      refetchIfWatched(key, entry);
+    },
+    clear: () => {
+      entries.clear();
+      listeners.forEach((_, key) => notify(key));
+    },
+  };
+};
+
+// Shared by every useQuery() that doesn't pass its own cache
+export const queryCache = createQueryCache();
+
+// Start loading data for a route or component before it renders, e.g. on
+// hover or in a route transition
+export const prefetch = <T>(
+  key: string,
+  fetcher: Fetcher<T>,
+  options?: PrefetchOptions
+) => queryCache.prefetch(key, fetcher, options);
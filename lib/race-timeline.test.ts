@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { createRaceTimeline } from "@/lib/race-timeline";
+
+// A request the test settles by hand
+const createRequest = () => {
+  let resolve: (value: string) => void = () => {};
+  let reject: (error: unknown) => void = () => {};
+  const promise = new Promise<string>((settle, fail) => {
+    resolve = settle;
+    reject = fail;
+  });
+  return { promise, resolve, reject };
+};
+
+// Lets the timeline's then-callbacks run
+const settle = (promise: Promise<unknown>) => promise.catch(() => {});
+
+const requestFor = (
+  timeline: ReturnType<typeof createRaceTimeline>,
+  issueId: string
+) => {
+  const request = createRequest();
+  timeline.track(issueId, request.promise);
+  return request;
+};
+
+describe("createRaceTimeline", () => {
+  it("records each request's outcome", async () => {
+    const timeline = createRaceTimeline("1");
+    const resolved = requestFor(timeline, "1");
+    const aborted = requestFor(timeline, "1");
+    const failed = requestFor(timeline, "1");
+    expect(
+      timeline.getSnapshot().requests.map((request) => request.status)
+    ).toEqual(["pending", "pending", "pending"]);
+
+    resolved.resolve("issue 1");
+    aborted.reject(new DOMException("Aborted", "AbortError"));
+    failed.reject(new Error("500"));
+    await Promise.all(
+      [resolved, aborted, failed].map(({ promise }) => settle(promise))
+    );
+
+    const requests = timeline.getSnapshot().requests;
+    expect(requests.map((request) => request.status)).toEqual([
+      "resolved",
+      "aborted",
+      "failed",
+    ]);
+    expect(requests.every((request) => request.end !== null)).toBe(true);
+  });
+
+  it("flags an out-of-order response stale when it's displayed", async () => {
+    const timeline = createRaceTimeline("1");
+    const slow = requestFor(timeline, "1");
+    timeline.select("2");
+    const fast = requestFor(timeline, "2");
+
+    fast.resolve("issue 2");
+    await settle(fast.promise);
+    timeline.display("2");
+
+    // Issue 1's response lands last and overwrites the page
+    slow.resolve("issue 1");
+    await settle(slow.promise);
+    timeline.display("1");
+
+    const [first, second] = timeline.getSnapshot().requests;
+    expect(second).toMatchObject({ issueId: "2", stale: false });
+    expect(second.committedAt).not.toBeNull();
+    expect(first).toMatchObject({ issueId: "1", stale: true });
+    expect(first.committedAt).toBeGreaterThanOrEqual(second.committedAt ?? 0);
+    expect(timeline.getSnapshot()).toMatchObject({
+      selectedId: "2",
+      displayedId: "1",
+    });
+  });
+
+  it("attributes a display to the last response for that issue", async () => {
+    const timeline = createRaceTimeline("1");
+    const earlier = requestFor(timeline, "1");
+    const later = requestFor(timeline, "1");
+
+    earlier.resolve("first");
+    await settle(earlier.promise);
+    later.resolve("second");
+    await settle(later.promise);
+    timeline.display("1");
+
+    const [first, second] = timeline.getSnapshot().requests;
+    expect(first.committedAt).toBeNull();
+    expect(second.committedAt).not.toBeNull();
+    expect(second.stale).toBe(false);
+  });
+
+  it("doesn't commit anything when the display doesn't change", async () => {
+    const timeline = createRaceTimeline("1");
+    const first = requestFor(timeline, "1");
+    first.resolve("issue 1");
+    await settle(first.promise);
+    timeline.display("1");
+
+    const second = requestFor(timeline, "1");
+    second.resolve("issue 1 again");
+    await settle(second.promise);
+    timeline.display("1");
+
+    expect(timeline.getSnapshot().requests[1].committedAt).toBeNull();
+  });
+
+  it("never commits a response that wasn't resolved", async () => {
+    const timeline = createRaceTimeline("1");
+    const aborted = requestFor(timeline, "1");
+    aborted.reject(new DOMException("Aborted", "AbortError"));
+    await settle(aborted.promise);
+
+    timeline.display("1");
+    expect(timeline.getSnapshot().requests[0].committedAt).toBeNull();
+  });
+
+  it("only records a selection when the tab changes", () => {
+    const timeline = createRaceTimeline("1");
+    timeline.select("1");
+    timeline.select("2");
+    timeline.select("2");
+
+    expect(
+      timeline.getSnapshot().selections.map((selection) => selection.issueId)
+    ).toEqual(["1", "2"]);
+  });
+});
@@ -0,0 +1,142 @@
+export type RaceRequestStatus = "pending" | "resolved" | "aborted" | "failed";
+
+export type RaceRequest = {
+  id: number;
+  // Tab the request was made for, e.g. "2"
+  issueId: string;
+  // performance.now() timestamps
+  start: number;
+  end: number | null;
+  status: RaceRequestStatus;
+  // When its response was put on screen, null if it never was
+  committedAt: number | null;
+  // Committed while a different tab was selected: the race condition
+  stale: boolean;
+};
+
+export type RaceSelection = { issueId: string; at: number };
+
+export type RaceSnapshot = {
+  requests: readonly RaceRequest[];
+  selections: readonly RaceSelection[];
+  selectedId: string;
+  displayedId: string | null;
+};
+
+export type RaceTimeline = {
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => RaceSnapshot;
+  // A tab was clicked
+  select: (issueId: string) => void;
+  // Records the request and hands its promise back untouched
+  track: <T>(issueId: string, request: Promise<T>) => Promise<T>;
+  // The page now shows this issue (null while it shows a spinner)
+  display: (issueId: string | null) => void;
+};
+
+const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+// Which tab was selected, which requests ran, and which response each render
+// showed, so a stale response is visible as an event instead of a hunch
+export const createRaceTimeline = (initialId: string): RaceTimeline => {
+  let snapshot: RaceSnapshot = {
+    requests: [],
+    selections: [{ issueId: initialId, at: performance.now() }],
+    selectedId: initialId,
+    displayedId: null,
+  };
+  let nextId = 1;
+  const listeners = new Set<() => void>();
+
+  const update = (patch: Partial<RaceSnapshot>) => {
+    snapshot = { ...snapshot, ...patch };
+    listeners.forEach((listener) => listener());
+  };
+
+  const updateRequest = (id: number, patch: Partial<RaceRequest>) =>
+    update({
+      requests: snapshot.requests.map((request) =>
+        request.id === id ? { ...request, ...patch } : request
+      ),
+    });
+
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    getSnapshot: () => snapshot,
+    select: (issueId) => {
+      if (issueId === snapshot.selectedId) {
+        return;
+      }
+      update({
+        selectedId: issueId,
+        selections: [
+          ...snapshot.selections,
+          { issueId, at: performance.now() },
+        ],
+      });
+    },
+    track: (issueId, request) => {
+      const id = nextId++;
+      update({
+        requests: [
+          ...snapshot.requests,
+          {
+            id,
+            issueId,
+            start: performance.now(),
+            end: null,
+            status: "pending",
+            committedAt: null,
+            stale: false,
+          },
+        ],
+      });
+
+      request.then(
+        () => updateRequest(id, { end: performance.now(), status: "resolved" }),
+        (error) =>
+          updateRequest(id, {
+            end: performance.now(),
+            status: isAbortError(error) ? "aborted" : "failed",
+          })
+      );
+      return request;
+    },
+    display: (issueId) => {
+      if (issueId === snapshot.displayedId) {
+        return;
+      }
+      // The response that just rendered: the last one to resolve for the
+      // issue that hasn't been on screen yet
+      const committed = snapshot.requests
+        .filter(
+          (request) =>
+            request.issueId === issueId &&
+            request.status === "resolved" &&
+            request.committedAt === null
+        )
+        .reduce<RaceRequest | null>(
+          (latest, request) =>
+            latest && (latest.end ?? 0) > (request.end ?? 0) ? latest : request,
+          null
+        );
+
+      update({
+        displayedId: issueId,
+        requests: snapshot.requests.map((request) =>
+          request === committed
+            ? {
+                ...request,
+                committedAt: performance.now(),
+                stale: issueId !== snapshot.selectedId,
+              }
+            : request
+        ),
+      });
+    },
+  };
+};
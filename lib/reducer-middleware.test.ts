@@ -0,0 +1,97 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  createPersistence,
+  type MiddlewareApi,
+} from "@/lib/reducer-middleware";
+
+type SettingsState = { theme: string; fontSize: number; draft: string };
+
+const KEY = "test:settings";
+const INITIAL_STATE: SettingsState = { theme: "light", fontSize: 14, draft: "" };
+
+// Just enough of a store to attach a middleware to
+const createTestStore = (initialState: SettingsState) => {
+  let state = initialState;
+  const listeners = new Set<() => void>();
+  const store: MiddlewareApi<SettingsState, never> = {
+    getState: () => state,
+    dispatch: () => {},
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    replaceState: (next) => {
+      state = next;
+      listeners.forEach((listener) => listener());
+    },
+  };
+  return store;
+};
+
+type PersistOptions = Parameters<
+  typeof createPersistence<SettingsState, never>
+>[0];
+
+const restore = (stored: string, options: Partial<PersistOptions> = {}) => {
+  window.localStorage.setItem(KEY, stored);
+  const store = createTestStore(INITIAL_STATE);
+  createPersistence<SettingsState, never>({ ...options, key: KEY })(store);
+  return store.getState();
+};
+
+afterEach(() => {
+  window.localStorage.clear();
+});
+
+describe("createPersistence", () => {
+  it("restores the stored fields over the initial state", () => {
+    expect(restore(JSON.stringify({ theme: "dark" }))).toEqual({
+      ...INITIAL_STATE,
+      theme: "dark",
+    });
+  });
+
+  it("drops unknown fields and fields of the wrong type", () => {
+    const state = restore(
+      JSON.stringify({ theme: "dark", fontSize: "huge", isAdmin: true })
+    );
+
+    expect(state).toEqual({ ...INITIAL_STATE, theme: "dark" });
+  });
+
+  it("keeps the initial state for corrupt or non-object JSON", () => {
+    expect(restore("{not json")).toEqual(INITIAL_STATE);
+    expect(restore("[1, 2]")).toEqual(INITIAL_STATE);
+    expect(restore("42")).toEqual(INITIAL_STATE);
+  });
+
+  it("restores what deserialize returns, limited to known fields", () => {
+    const state = restore(JSON.stringify({ theme: "solarized", size: 20 }), {
+      deserialize: (stored, current) =>
+        ({
+          theme: stored.theme === "dark" ? "dark" : current.theme,
+          fontSize: Number(stored.size) || current.fontSize,
+          // Not a field of the state, so never restored
+          extra: true,
+        }) as Partial<SettingsState>,
+    });
+
+    expect(state).toEqual({ ...INITIAL_STATE, theme: "light", fontSize: 20 });
+  });
+
+  it("saves what serialize returns on every change", () => {
+    const store = createTestStore(INITIAL_STATE);
+    createPersistence<SettingsState, never>({
+      key: KEY,
+      serialize: ({ theme, fontSize }) => ({ theme, fontSize }),
+    })(store);
+
+    store.replaceState({ theme: "dark", fontSize: 16, draft: "unsaved" });
+
+    expect(JSON.parse(window.localStorage.getItem(KEY)!)).toEqual({
+      theme: "dark",
+      fontSize: 16,
+    });
+  });
+});
@@ -0,0 +1,249 @@
+export type Dispatch<Action> = (action: Action) => void;
+
+// What a middleware can do with the store it's attached to
+export type MiddlewareApi<State, Action> = {
+  getState: () => State;
+  dispatch: Dispatch<Action>;
+  subscribe: (listener: () => void) => () => void;
+  // Swap in a whole state without running the reducer: restoring, time travel
+  replaceState: (state: State) => void;
+};
+
+export type MiddlewareHandle<Action> = {
+  // Wraps dispatch: call `next` to hand the action on towards the reducer
+  dispatch?: (next: Dispatch<Action>) => Dispatch<Action>;
+  // Undo whatever the middleware set up when it was attached
+  detach?: () => void;
+};
+
+// Attached in the browser only, once the provider has mounted or on the
+// first dispatch, so it can safely read storage
+export type Middleware<State, Action> = (
+  store: MiddlewareApi<State, Action>
+) => MiddlewareHandle<Action>;
+
+// Fields whose value changed between two states, compared shallowly
+export type StateDiff = { key: string; before: unknown; after: unknown }[];
+
+export const diffState = <State>(before: State, after: State): StateDiff => {
+  if (
+    typeof before !== "object" ||
+    typeof after !== "object" ||
+    !before ||
+    !after
+  ) {
+    return Object.is(before, after) ? [] : [{ key: "", before, after }];
+  }
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys]
+    .map((key) => ({
+      key,
+      before: before[key as keyof State] as unknown,
+      after: after[key as keyof State] as unknown,
+    }))
+    .filter((change) => !Object.is(change.before, change.after));
+};
+
+// ===========================================
+// LOGGER: one collapsed console group per action
+// ===========================================
+
+export const createLogger =
+  <State, Action extends { type: string }>(
+    name: string
+  ): Middleware<State, Action> =>
+  ({ getState }) => ({
+    dispatch: (next) => (action) => {
+      const before = getState();
+      next(action);
+      const after = getState();
+
+      console.groupCollapsed(
+        `[${name}] ${action.type}${before === after ? " (no change)" : ""}`
+      );
+      console.log("before", before);
+      console.log("action", action);
+      console.log("after", after);
+      console.groupEnd();
+    },
+  });
+
+// ===========================================
+// PERSISTENCE: restore on attach, save on every change
+// ===========================================
+
+type PersistOptions<State> = {
+  // localStorage key, e.g. "react-internals:navigation"
+  key: string;
+  // Drop fields that shouldn't survive a reload
+  serialize?: (state: State) => Partial<State>;
+  // The inverse: the fields worth restoring from what was stored, which may
+  // be stale or hand-edited. Defaults to the ones whose type still matches
+  deserialize?: (stored: Record<string, unknown>, state: State) => Partial<State>;
+};
+
+// Fields of `stored` the state also has, holding the same type of value
+const pickMatchingFields = <State>(
+  stored: Record<string, unknown>,
+  state: State
+): Partial<State> =>
+  Object.fromEntries(
+    Object.entries(stored).filter(
+      ([key, value]) =>
+        Object.hasOwn(state as object, key) &&
+        typeof value === typeof state[key as keyof State]
+    )
+  ) as Partial<State>;
+
+// Never lets fields the state doesn't have in, whatever deserialize returns
+const pickKnownFields = <State>(
+  restored: Partial<State>,
+  state: State
+): Partial<State> =>
+  Object.fromEntries(
+    Object.entries(restored).filter(([key]) =>
+      Object.hasOwn(state as object, key)
+    )
+  ) as Partial<State>;
+
+export const createPersistence =
+  <State, Action>({
+    key,
+    serialize = (state) => state,
+    deserialize = pickMatchingFields,
+  }: PersistOptions<State>): Middleware<State, Action> =>
+  ({ getState, subscribe, replaceState }) => {
+    try {
+      const stored: unknown = JSON.parse(
+        window.localStorage.getItem(key) ?? "null"
+      );
+      if (typeof stored === "object" && stored && !Array.isArray(stored)) {
+        const state = getState();
+        const restored = deserialize(stored as Record<string, unknown>, state);
+        replaceState({ ...state, ...pickKnownFields(restored, state) });
+      }
+    } catch {
+      // Corrupt JSON or storage disabled, keep the initial state
+    }
+
+    // Subscribing instead of wrapping dispatch also saves time-travel jumps
+    const unsubscribe = subscribe(() => {
+      try {
+        window.localStorage.setItem(
+          key,
+          JSON.stringify(serialize(getState()))
+        );
+      } catch {
+        // Still works for this session when storage is unavailable
+      }
+    });
+
+    return { detach: unsubscribe };
+  };
+
+// ===========================================
+// DEVTOOLS: action history with time travel
+// ===========================================
+
+export type DevtoolsEntry<State, Action> = {
+  id: number;
+  // null for the state the store had when the devtools attached
+  action: Action | null;
+  before: State;
+  after: State;
+  // performance.now() timestamp
+  at: number;
+};
+
+export type DevtoolsSnapshot<State, Action> = {
+  entries: readonly DevtoolsEntry<State, Action>[];
+  // Entry whose state is on screen; below the last one after a jump back
+  currentIndex: number;
+  isAttached: boolean;
+};
+
+export type ReducerDevtools<State, Action> = {
+  middleware: Middleware<State, Action>;
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => DevtoolsSnapshot<State, Action>;
+  // Put the store back in the state after entry `index`
+  jumpTo: (index: number) => void;
+  // Start the history over from the current state
+  reset: () => void;
+};
+
+const EMPTY_DEVTOOLS_SNAPSHOT: DevtoolsSnapshot<never, never> = {
+  entries: [],
+  currentIndex: -1,
+  isAttached: false,
+};
+
+// Records every action with the state before and after it, like an undo
+// history that can also jump forward again
+export const createDevtools = <State, Action>(): ReducerDevtools<
+  State,
+  Action
+> => {
+  let snapshot: DevtoolsSnapshot<State, Action> = EMPTY_DEVTOOLS_SNAPSHOT;
+  let store: MiddlewareApi<State, Action> | null = null;
+  let nextId = 0;
+  const listeners = new Set<() => void>();
+
+  const update = (patch: Partial<DevtoolsSnapshot<State, Action>>) => {
+    snapshot = { ...snapshot, ...patch };
+    listeners.forEach((listener) => listener());
+  };
+
+  const record = (action: Action | null, before: State, after: State) => {
+    // Dispatching after a jump back replaces the entries past it
+    const kept =
+      action === null
+        ? []
+        : snapshot.entries.slice(0, snapshot.currentIndex + 1);
+    update({
+      entries: [
+        ...kept,
+        { id: nextId++, action, before, after, at: performance.now() },
+      ],
+      currentIndex: kept.length,
+    });
+  };
+
+  return {
+    middleware: (api) => {
+      store = api;
+      record(null, api.getState(), api.getState());
+      update({ isAttached: true });
+
+      return {
+        dispatch: (next) => (action) => {
+          const before = api.getState();
+          next(action);
+          record(action, before, api.getState());
+        },
+        detach: () => {
+          store = null;
+          update({ isAttached: false });
+        },
+      };
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    getSnapshot: () => snapshot,
+    jumpTo: (index) => {
+      const entry = snapshot.entries[index];
+      if (!store || !entry) {
+        return;
+      }
+      store.replaceState(entry.after);
+      update({ currentIndex: index });
+    },
+    reset: () => {
+      if (store) {
+        record(null, store.getState(), store.getState());
+      }
+    },
+  };
+};
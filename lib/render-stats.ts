@@ -0,0 +1,103 @@
+export type RenderStats = {
+  count: number;
+  // Profiler actualDuration of the last counted render, in ms. Stays null in
+  // production builds, where React doesn't report Profiler timings
+  lastDuration: number | null;
+};
+
+// Profiler numbers for a whole panel (one half of a chapter)
+export type PanelMetrics = {
+  commits: number;
+  totalDuration: number;
+  maxCommitDuration: number;
+  // Instrumented component renders since the last pointer/key interaction
+  interactionRenders: number;
+};
+
+export type RenderStatsStore = {
+  subscribe: (listener: () => void) => () => void;
+  getStats: (name: string) => RenderStats;
+  getMetrics: () => PanelMetrics;
+  // A committed render of an instrumented component
+  record: (name: string) => void;
+  // Its Profiler timing, reported later in the same commit
+  recordDuration: (name: string, duration: number) => void;
+  recordCommit: (actualDuration: number) => void;
+  startInteraction: () => void;
+  reset: () => void;
+};
+
+export const EMPTY_RENDER_STATS: RenderStats = { count: 0, lastDuration: null };
+
+export const EMPTY_PANEL_METRICS: PanelMetrics = {
+  commits: 0,
+  totalDuration: 0,
+  maxCommitDuration: 0,
+  interactionRenders: 0,
+};
+
+// Tiny external store for render counts. The badges subscribe and write their
+// text straight to the DOM, and the panel metrics are read with
+// useSyncExternalStore, so nothing re-renders the components being measured.
+export const createRenderStatsStore = (): RenderStatsStore => {
+  let stats = new Map<string, RenderStats>();
+  let metrics = EMPTY_PANEL_METRICS;
+  // Counted this commit, waiting for their Profiler timing
+  const awaitingDuration = new Set<string>();
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    getStats: (name) => stats.get(name) ?? EMPTY_RENDER_STATS,
+    getMetrics: () => metrics,
+    record: (name) => {
+      const previous = stats.get(name) ?? EMPTY_RENDER_STATS;
+      stats = new Map(stats).set(name, {
+        ...previous,
+        count: previous.count + 1,
+      });
+      awaitingDuration.add(name);
+      metrics = {
+        ...metrics,
+        interactionRenders: metrics.interactionRenders + 1,
+      };
+      notify();
+    },
+    recordDuration: (name, duration) => {
+      // A Profiler also reports commits where a memoized component bailed out
+      if (!awaitingDuration.delete(name)) {
+        return;
+      }
+      const previous = stats.get(name) ?? EMPTY_RENDER_STATS;
+      stats = new Map(stats).set(name, { ...previous, lastDuration: duration });
+      notify();
+    },
+    recordCommit: (actualDuration) => {
+      metrics = {
+        ...metrics,
+        commits: metrics.commits + 1,
+        totalDuration: metrics.totalDuration + actualDuration,
+        maxCommitDuration: Math.max(metrics.maxCommitDuration, actualDuration),
+      };
+      notify();
+    },
+    startInteraction: () => {
+      if (metrics.interactionRenders === 0) {
+        return;
+      }
+      metrics = { ...metrics, interactionRenders: 0 };
+      notify();
+    },
+    reset: () => {
+      stats = new Map();
+      awaitingDuration.clear();
+      metrics = EMPTY_PANEL_METRICS;
+      notify();
+    },
+  };
+};
@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createRequestLog, EMPTY_REQUEST_RECORDS } from "@/lib/request-log";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// A request the test settles by hand
+const createRequest = () => {
+  let resolve: (value: string) => void = () => {};
+  let reject: (error: unknown) => void = () => {};
+  const promise = new Promise<string>((settle, fail) => {
+    resolve = settle;
+    reject = fail;
+  });
+  return { promise, resolve, reject };
+};
+
+// Lets the log's then-callbacks run
+const settle = (promise: Promise<unknown>) => promise.catch(() => {});
+
+describe("createRequestLog", () => {
+  it("records a request as pending, then done", async () => {
+    const log = createRequestLog();
+    const request = createRequest();
+
+    log.track("issue 1", request.promise);
+    expect(log.getRecords()).toEqual([
+      expect.objectContaining({
+        label: "issue 1",
+        status: "pending",
+        end: null,
+        error: null,
+      }),
+    ]);
+
+    request.resolve("data");
+    await settle(request.promise);
+    expect(log.getRecords()[0]).toMatchObject({ status: "done", error: null });
+  });
+
+  it("marks an aborted request as aborted, not failed", async () => {
+    const log = createRequestLog();
+    const request = createRequest();
+
+    log.track("issue 1", request.promise);
+    request.reject(new DOMException("Aborted", "AbortError"));
+    await settle(request.promise);
+
+    expect(log.getRecords()[0]).toMatchObject({
+      status: "aborted",
+      error: null,
+    });
+  });
+
+  it("keeps the message of a failed request", async () => {
+    const log = createRequestLog();
+    const failed = createRequest();
+    const thrown = createRequest();
+
+    log.track("issue 1", failed.promise);
+    log.track("issue 2", thrown.promise);
+    failed.reject(new Error("500 Internal Server Error"));
+    thrown.reject("timeout");
+    await Promise.all([settle(failed.promise), settle(thrown.promise)]);
+
+    expect(log.getRecords()).toMatchObject([
+      { status: "error", error: "500 Internal Server Error" },
+      { status: "error", error: "timeout" },
+    ]);
+  });
+
+  it("times each request from track() until it settles", async () => {
+    const now = vi.spyOn(performance, "now");
+    const log = createRequestLog();
+    const first = createRequest();
+    const second = createRequest();
+
+    now.mockReturnValue(100);
+    log.track("issue 1", first.promise);
+    now.mockReturnValue(150);
+    log.track("issue 2", second.promise);
+
+    now.mockReturnValue(300);
+    second.resolve("data");
+    await settle(second.promise);
+    now.mockReturnValue(400);
+    first.resolve("data");
+    await settle(first.promise);
+
+    // Still in start order, whichever finished first
+    expect(log.getRecords()).toMatchObject([
+      { id: 1, label: "issue 1", start: 100, end: 400 },
+      { id: 2, label: "issue 2", start: 150, end: 300 },
+    ]);
+  });
+
+  it("hands back the promise it was given", () => {
+    const log = createRequestLog();
+    const request = createRequest();
+
+    expect(log.track("issue 1", request.promise)).toBe(request.promise);
+  });
+
+  it("notifies on every change and stops after unsubscribing", async () => {
+    const log = createRequestLog();
+    const listener = vi.fn();
+    const unsubscribe = log.subscribe(listener);
+    const request = createRequest();
+
+    log.track("issue 1", request.promise);
+    request.resolve("data");
+    await settle(request.promise);
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    log.clear();
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it("clears the records, and a request settling after that stays gone", async () => {
+    const log = createRequestLog();
+    const request = createRequest();
+
+    log.track("issue 1", request.promise);
+    log.clear();
+    expect(log.getRecords()).toBe(EMPTY_REQUEST_RECORDS);
+
+    request.resolve("data");
+    await settle(request.promise);
+    expect(log.getRecords()).toEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+export type RequestStatus = "pending" | "done" | "aborted" | "error";
+
+export type RequestRecord = {
+  id: number;
+  label: string;
+  // performance.now() timestamps
+  start: number;
+  end: number | null;
+  status: RequestStatus;
+  error: string | null;
+};
+
+export type RequestLog = {
+  subscribe: (listener: () => void) => () => void;
+  getRecords: () => readonly RequestRecord[];
+  // Records the request and hands its promise back untouched
+  track: <T>(label: string, request: Promise<T>) => Promise<T>;
+  clear: () => void;
+};
+
+export const EMPTY_REQUEST_RECORDS: readonly RequestRecord[] = [];
+
+const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+// Start, end and outcome of every request a demo makes, in start order
+export const createRequestLog = (): RequestLog => {
+  let records = EMPTY_REQUEST_RECORDS;
+  let nextId = 1;
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const finish = (
+    id: number,
+    status: RequestStatus,
+    error: string | null = null
+  ) => {
+    records = records.map((record) =>
+      record.id === id
+        ? { ...record, end: performance.now(), status, error }
+        : record
+    );
+    notify();
+  };
+
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    getRecords: () => records,
+    track: (label, request) => {
+      const id = nextId++;
+      records = [
+        ...records,
+        {
+          id,
+          label,
+          start: performance.now(),
+          end: null,
+          status: "pending",
+          error: null,
+        },
+      ];
+      notify();
+
+      request.then(
+        () => finish(id, "done"),
+        (error) =>
+          isAbortError(error)
+            ? finish(id, "aborted")
+            : finish(
+                id,
+                "error",
+                error instanceof Error ? error.message : String(error)
+              )
+      );
+      return request;
+    },
+    clear: () => {
+      records = EMPTY_REQUEST_RECORDS;
+      notify();
+    },
+  };
+};
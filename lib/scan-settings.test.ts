@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// A fresh module, so the settings are read from the stored value again
+const loadWithStored = async (stored: string | null) => {
+  vi.resetModules();
+  vi.stubGlobal("window", {
+    localStorage: { getItem: () => stored, setItem: () => {} },
+  });
+  return import("@/lib/scan-settings");
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("getScanSettings", () => {
+  it("uses the defaults when nothing is stored", async () => {
+    const { DEFAULT_SCAN_SETTINGS, getScanSettings } =
+      await loadWithStored(null);
+    expect(getScanSettings()).toBe(DEFAULT_SCAN_SETTINGS);
+  });
+
+  it("restores valid settings", async () => {
+    const { getScanSettings } = await loadWithStored(
+      JSON.stringify({
+        enabled: false,
+        showFPS: false,
+        animations: true,
+        scope: "optimised",
+      })
+    );
+
+    expect(getScanSettings()).toEqual({
+      enabled: false,
+      showFPS: false,
+      animations: true,
+      scope: "optimised",
+    });
+  });
+
+  it("falls back to the default for each invalid field", async () => {
+    const { getScanSettings } = await loadWithStored(
+      JSON.stringify({
+        enabled: "false",
+        showFPS: false,
+        animations: 0,
+        scope: "left",
+        extra: true,
+      })
+    );
+
+    expect(getScanSettings()).toEqual({
+      enabled: true,
+      showFPS: false,
+      animations: true,
+      scope: "all",
+    });
+  });
+
+  it("uses the defaults when the stored value isn't an object", async () => {
+    for (const stored of ["[false]", "null", "true", "{not json"]) {
+      const { DEFAULT_SCAN_SETTINGS, getScanSettings } =
+        await loadWithStored(stored);
+      expect(getScanSettings()).toEqual(DEFAULT_SCAN_SETTINGS);
+    }
+  });
+});
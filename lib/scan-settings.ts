@@ -0,0 +1,96 @@
+export type ScanScope = "all" | "non-optimised" | "optimised";
+
+export type ScanSettings = {
+  enabled: boolean;
+  showFPS: boolean;
+  animations: boolean;
+  // Which chapter half outlines are drawn over
+  scope: ScanScope;
+};
+
+export const DEFAULT_SCAN_SETTINGS: ScanSettings = {
+  enabled: true,
+  showFPS: true,
+  animations: true,
+  scope: "all",
+};
+
+const STORAGE_KEY = "react-internals:scan-settings";
+
+const listeners = new Set<() => void>();
+let cached: ScanSettings | null = null;
+
+const SCAN_SCOPES: readonly ScanScope[] = ["all", "non-optimised", "optimised"];
+
+const isScanScope = (value: unknown): value is ScanScope =>
+  SCAN_SCOPES.includes(value as ScanScope);
+
+// Keep each stored field of the right type, the default for the rest
+const deserialize = (stored: unknown): ScanSettings => {
+  const settings: Record<string, unknown> =
+    typeof stored === "object" && stored !== null && !Array.isArray(stored)
+      ? (stored as Record<string, unknown>)
+      : {};
+  const pickBoolean = (key: "enabled" | "showFPS" | "animations") => {
+    const value = settings[key];
+    return typeof value === "boolean" ? value : DEFAULT_SCAN_SETTINGS[key];
+  };
+
+  return {
+    enabled: pickBoolean("enabled"),
+    showFPS: pickBoolean("showFPS"),
+    animations: pickBoolean("animations"),
+    scope: isScanScope(settings.scope)
+      ? settings.scope
+      : DEFAULT_SCAN_SETTINGS.scope,
+  };
+};
+
+const read = (): ScanSettings => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? deserialize(JSON.parse(stored)) : DEFAULT_SCAN_SETTINGS;
+  } catch {
+    // Corrupt JSON or storage disabled, start from the defaults
+    return DEFAULT_SCAN_SETTINGS;
+  }
+};
+
+export const getScanSettings = () => {
+  if (!cached) {
+    cached = read();
+  }
+  return cached;
+};
+
+export const updateScanSettings = (patch: Partial<ScanSettings>) => {
+  cached = { ...getScanSettings(), ...patch };
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(cached));
+  } catch {
+    // Still applies for this session when storage is unavailable
+  }
+  listeners.forEach((listener) => listener());
+};
+
+// Settings changed in another tab
+const handleStorage = (event: StorageEvent) => {
+  if (event.key === STORAGE_KEY) {
+    cached = null;
+    listeners.forEach((listener) => listener());
+  }
+};
+
+export const subscribeToScanSettings = (listener: () => void) => {
+  if (listeners.size === 0) {
+    window.addEventListener("storage", handleStorage);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      window.removeEventListener("storage", handleStorage);
+    }
+  };
+};
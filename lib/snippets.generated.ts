@@ -0,0 +1,52 @@
+// Generated by scripts/extract-snippets.mjs, do not edit by hand.
+
+export const snippets = {
+  "components/chapter-10/optimised.tsx#use-event-callback": {
+    fileName: "components/chapter-10/optimised.tsx",
+    code: "function useEventCallback<T extends (...args: never[]) => unknown>(\n  callback: T\n): T {\n  const ref = useRef<T>(callback);\n\n  // Update ref on every render to capture latest closure\n  useEffect(() => {\n    ref.current = callback;\n  });\n\n  // Return stable callback that calls the ref\n  return useCallback((...args: Parameters<T>) => {\n    return ref.current(...args);\n  }, []) as T;\n}",
+  },
+  "components/chapter-10/optimised.tsx#use-event-callback-usage": {
+    fileName: "components/chapter-10/optimised.tsx",
+    code: "// Using the custom hook - much cleaner!\nconst handleSubmit = useEventCallback(() => {\n  setSubmitted(`Name: ${name}, Message: ${message}`);\n});",
+  },
+  "components/chapter-14/index.tsx#page-fetching": {
+    fileName: "components/chapter-14/index.tsx",
+    code: "const [data, setData] = useState<typeof issuesData[\"1\"] | null>(null);\nconst [error, setError] = useState<Error | null>(null);\nconst [loading, setLoading] = useState(true);\nconst track = useTrackRequest();\nconst race = useRaceTimeline();\n\n// \"ISSUE-2\" -> \"2\": lets the timeline spot a response shown on the wrong tab\nuseReportDisplayedIssue(\n  loading || error || !data ? null : data.id.split(\"-\")[1]\n);\n\nuseEffect(() => {\n  setLoading(true);\n\n  // ❌ Race condition: if id changes while fetch is in progress,\n  // the old fetch can still complete and update state!\n  race.track(id, track(`Issue ${id}`, simulateFetch(id))).then(\n    (result) => {\n      console.log(`[State] Setting data for Issue ${result.id}`);\n      setData(result);\n      setError(null);\n      setLoading(false);\n    },\n    // Failures race too: an old request can fail the current tab\n    (fetchError: Error) => {\n      console.log(`[State] Setting error: ${fetchError.message}`);\n      setError(fetchError);\n      setLoading(false);\n    }\n  );\n}, [id, track, race]);",
+  },
+  "components/chapter-14/optimised.tsx#page-with-abort-fetching": {
+    fileName: "components/chapter-14/optimised.tsx",
+    code: "const fetchIssue = useIssueFetcher();\nconst issue = useAsync((signal) => fetchIssue(id, signal), [id, fetchIssue]);",
+  },
+  "components/chapter-8/optimised.tsx#navigation-context": {
+    fileName: "components/chapter-8/optimised.tsx",
+    code: "// Split contexts, memoized API and HOC selector - all from one factory\nconst {\n  Provider: NavigationProvider,\n  useData: useNavigationData,\n  useSelector: useNavigationSelector,\n  useApi: useNavigationApi,\n  withApi: withNavigationApi,\n} = createSplitContext({\n  name: \"Navigation\",\n  reducer: navigationReducer,\n  initialState: { isNavExpanded: true, activeLink: \"Link 1\", unreadCount: 0 },\n  actions: {\n    open: (): NavigationAction => ({ type: \"open-sidebar\" }),\n    close: (): NavigationAction => ({ type: \"close-sidebar\" }),\n    toggle: (): NavigationAction => ({ type: \"toggle-sidebar\" }),\n    selectLink: (link: string): NavigationAction => ({\n      type: \"select-link\",\n      link,\n    }),\n    receiveNotification: (): NavigationAction => ({\n      type: \"receive-notification\",\n    }),\n    markAllRead: (): NavigationAction => ({ type: \"mark-all-read\" }),\n  },\n  middleware: navigationMiddleware,\n});",
+  },
+  "components/chapter-8/optimised.tsx#navigation-middleware": {
+    fileName: "components/chapter-8/optimised.tsx",
+    code: "// Every action is logged, saved and recorded for the panel below the demo\nconst navigationDevtools = createDevtools<NavigationState, NavigationAction>();\n\nconst navigationMiddleware: Middleware<NavigationState, NavigationAction>[] = [\n  createLogger(\"Navigation\"),\n  createPersistence({\n    key: \"react-internals:chapter-8-navigation\",\n    // Notifications shouldn't survive a reload\n    serialize: ({ isNavExpanded, activeLink }) => ({\n      isNavExpanded,\n      activeLink,\n    }),\n    // Anything else in storage is stale or hand-edited, ignore it\n    deserialize: ({ isNavExpanded, activeLink }, state) => ({\n      isNavExpanded:\n        typeof isNavExpanded === \"boolean\"\n          ? isNavExpanded\n          : state.isNavExpanded,\n      activeLink:\n        NAVIGATION_LINKS.find((link) => link === activeLink) ??\n        state.activeLink,\n    }),\n  }),\n  navigationDevtools.middleware,\n];",
+  },
+  "components/chapter-8/optimised.tsx#navigation-selectors": {
+    fileName: "components/chapter-8/optimised.tsx",
+    code: "// Selectors live outside components so they keep the same identity\nconst selectIsNavExpanded = (state: NavigationState) => state.isNavExpanded;\nconst selectActiveLink = (state: NavigationState) => state.activeLink;\nconst selectUnreadCount = (state: NavigationState) => state.unreadCount;\n\n// Re-renders on toggle only, not on link clicks or notifications\nconst useIsNavExpanded = () => useNavigationSelector(selectIsNavExpanded);",
+  },
+  "components/error-boundary.tsx#error-boundary": {
+    fileName: "components/error-boundary.tsx",
+    code: "export class ErrorBoundary extends Component<\n  ErrorBoundaryProps,\n  ErrorBoundaryState\n> {\n  static contextType = ErrorReporterContext;\n  declare context: ContextType<typeof ErrorReporterContext>;\n\n  state: ErrorBoundaryState = { error: null };\n\n  // Called when a child throws during render\n  static getDerivedStateFromError(error: Error): ErrorBoundaryState {\n    return { error };\n  }\n\n  // Called after the error - good for logging\n  componentDidCatch(error: Error, errorInfo: ErrorInfo) {\n    this.context?.report(error, {\n      source: \"boundary\",\n      componentStack: errorInfo.componentStack,\n    });\n    this.props.onError?.(error, errorInfo);\n  }\n\n  componentDidUpdate(\n    prevProps: ErrorBoundaryProps,\n    prevState: ErrorBoundaryState\n  ) {\n    // Skip the update that caught the error: resetKeys changing in that same\n    // render would otherwise reset straight back into the broken children\n    if (\n      this.state.error !== null &&\n      prevState.error !== null &&\n      haveKeysChanged(prevProps.resetKeys, this.props.resetKeys)\n    ) {\n      this.props.onReset?.({\n        reason: \"keys\",\n        prev: prevProps.resetKeys ?? [],\n        next: this.props.resetKeys ?? [],\n      });\n      this.setState({ error: null });\n    }\n  }\n\n  resetErrorBoundary = () => {\n    if (this.state.error === null) {\n      return;\n    }\n    this.props.onReset?.({ reason: \"imperative-api\" });\n    this.setState({ error: null });\n  };\n\n  renderFallback(error: Error) {\n    const { FallbackComponent, fallbackRender, fallback } = this.props;\n    const fallbackProps = {\n      error,\n      resetErrorBoundary: this.resetErrorBoundary,\n    };\n\n    if (FallbackComponent) {\n      return <FallbackComponent {...fallbackProps} />;\n    }\n    if (fallbackRender) {\n      return fallbackRender(fallbackProps);\n    }\n    if (fallback !== undefined) {\n      return fallback;\n    }\n    return <DefaultFallback {...fallbackProps} />;\n  }\n\n  render() {\n    const { error } = this.state;\n\n    return (\n      <ErrorBoundaryContext.Provider\n        value={{ error, resetErrorBoundary: this.resetErrorBoundary }}\n      >\n        {error === null ? this.props.children : this.renderFallback(error)}\n      </ErrorBoundaryContext.Provider>\n    );\n  }\n}",
+  },
+  "hooks/use-async.ts#use-async": {
+    fileName: "hooks/use-async.ts",
+    code: "/**\n * Run `fn` whenever `deps` change and track its result. Only the latest run\n * can update state: older runs are aborted through the signal passed to `fn`,\n * and their results are dropped even if `fn` ignores the signal.\n */\nexport const useAsync = <T>(\n  fn: (signal: AbortSignal) => Promise<T>,\n  deps: DependencyList,\n  { keepPreviousData = false }: UseAsyncOptions = {}\n) => {\n  const fnRef = useRef(fn);\n  const [run, setRun] = useState({ id: 0, deps });\n  const [state, setState] = useState<AsyncState<T>>({\n    status: \"pending\",\n    data: undefined,\n    error: null,\n  });\n\n  useEffect(() => {\n    fnRef.current = fn;\n  });\n\n  const toPending = useCallback(\n    (current: AsyncState<T>): AsyncState<T> => ({\n      status: \"pending\",\n      data: keepPreviousData ? current.data : undefined,\n      error: null,\n    }),\n    [keepPreviousData]\n  );\n\n  // New deps start a new run in this render, so a stale result never paints\n  if (!areDepsEqual(run.deps, deps)) {\n    setRun({ id: run.id + 1, deps });\n    setState(toPending);\n  }\n\n  useEffect(() => {\n    const controller = new AbortController();\n    let isActive = true;\n\n    fnRef.current(controller.signal).then(\n      (data) => {\n        if (isActive) {\n          setState({ status: \"success\", data, error: null });\n        }\n      },\n      (error) => {\n        if (isActive) {\n          setState((current) => ({\n            status: \"error\",\n            data: keepPreviousData ? current.data : undefined,\n            error: toError(error),\n          }));\n        }\n      }\n    );\n\n    // A newer run or unmount: cancel this one and ignore whatever it returns\n    return () => {\n      isActive = false;\n      controller.abort();\n    };\n  }, [run.id, keepPreviousData]);\n\n  const reload = useCallback(() => {\n    setRun((current) => ({ ...current, id: current.id + 1 }));\n    setState(toPending);\n  }, [toPending]);\n\n  return { ...state, reload };\n};",
+  },
+  "hooks/use-context-selector.ts#use-context-selector": {
+    fileName: "hooks/use-context-selector.ts",
+    code: "/**\n * Subscribe to one slice of a store kept in context. The component only\n * re-renders when `selector` returns something that isn't `isEqual` to the\n * previous slice, not whenever any part of the state changes.\n *\n * Define selectors outside the component (or memoize them) when they build\n * new objects, and pass a matching `isEqual`, e.g. a shallow compare.\n */\nexport const useContextSelector = <State, Selected>(\n  context: Context<SelectableStore<State> | null>,\n  selector: (state: State) => Selected,\n  isEqual: (a: Selected, b: Selected) => boolean = Object.is\n): Selected => {\n  const store = useContext(context);\n\n  if (!store) {\n    throw new Error(\"useContextSelector must be used inside its provider\");\n  }\n\n  const getSelection = useMemo(\n    () => createGetSelection(store, selector, isEqual),\n    [store, selector, isEqual]\n  );\n\n  return useSyncExternalStore(store.subscribe, getSelection, getSelection);\n};",
+  },
+  "hooks/use-debounce.ts#use-debounce": {
+    fileName: "hooks/use-debounce.ts",
+    code: "/**\n * Debounce a callback that always sees the latest state/props, without\n * recreating the debounced function.\n *\n * The returned function keeps its identity until `isPending` flips, and works\n * from the first render on, even when a child calls it in its mount effect.\n *\n * Changing `delay` (or the options) doesn't drop a queued call: it waits for\n * the new delay with its latest arguments, as the trailing call of the burst\n * it belongs to, so it never fires at once even with `leading`. Unmounting\n * cancels it.\n */\nexport const useDebounce = <T extends AnyFunction>(\n  callback: T,\n  delay: number,\n  { leading = false, trailing = true, maxWait }: DebounceOptions = {}\n): DebouncedCallback<T> => {\n  const [isPending, setIsPending] = useState(false);\n  const [debouncer] = useState(() =>\n    createDebouncer(\n      callback,\n      { delay, leading, trailing, maxWait },\n      setIsPending\n    )\n  );\n\n  // Fresh closure for the next call\n  useEffect(() => {\n    debouncer.setCallback(callback);\n  });\n\n  useEffect(() => {\n    debouncer.configure({ delay, leading, trailing, maxWait });\n  }, [debouncer, delay, leading, trailing, maxWait]);\n\n  useEffect(() => debouncer.cancel, [debouncer]);\n\n  return useMemo(\n    () => toCallable(debouncer, isPending),\n    [debouncer, isPending]\n  );\n};",
+  },
+  "hooks/use-error-boundary.ts#use-error-boundary-callback": {
+    fileName: "hooks/use-error-boundary.ts",
+    code: "/**\n * Wraps an event handler so both synchronous throws and rejected promises\n * (from async handlers) end up in the nearest ErrorBoundary.\n */\nexport const useErrorBoundaryCallback = <\n  T extends (...args: never[]) => unknown,\n>(\n  callback: T\n) => {\n  const { showBoundary } = useErrorBoundary();\n  const callbackRef = useRef(callback);\n\n  useEffect(() => {\n    callbackRef.current = callback;\n  });\n\n  return useCallback(\n    (...args: Parameters<T>) => {\n      try {\n        const result = callbackRef.current(...args);\n        if (result instanceof Promise) {\n          result.catch(showBoundary);\n        }\n      } catch (error) {\n        showBoundary(error);\n      }\n    },\n    [showBoundary]\n  );\n};",
+  },
+} as const;
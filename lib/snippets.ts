@@ -0,0 +1,13 @@
+import { snippets } from "@/lib/snippets.generated";
+
+// "<file>#<region>" pairs that scripts/extract-snippets.mjs has found in the
+// source tree. Referencing a region that no longer exists fails the build.
+export type SnippetId = keyof typeof snippets;
+
+export type Snippet = {
+  fileName: string;
+  code: string;
+};
+
+// Spread into a CodeBlock: <CodeBlock {...getSnippet(id)} />
+export const getSnippet = (id: SnippetId): Snippet => snippets[id];
@@ -0,0 +1,137 @@
+// Extracts `// #region name` ... `// #endregion` blocks from the source tree
+// into lib/snippets.generated.ts, so CodeBlocks can show the real code instead
+// of a hand-copied string. Only regions referenced through getSnippet() are
+// emitted, and a reference to a missing region fails the build.
+//
+// Runs before `dev` and `build`, or on its own with `npm run snippets`.
+
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = fileURLToPath(new URL("..", import.meta.url));
+const sourceDirs = ["app", "components", "hooks", "lib"];
+const outputFile = "lib/snippets.generated.ts";
+
+const regionStart = /^\s*(?:\/\/|\{?\/\*)\s*#region\s+([\w-]+)/;
+const regionEnd = /^\s*(?:\/\/|\{?\/\*)\s*#endregion\b/;
+const snippetReference = /getSnippet\(\s*["']([^"'#]+)#([\w-]+)["']\s*\)/g;
+
+const listSourceFiles = async (dir) => {
+  const entries = await readdir(path.join(root, dir), { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map((entry) => {
+      const file = path.posix.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return listSourceFiles(file);
+      }
+      return /\.tsx?$/.test(entry.name) && file !== outputFile ? [file] : [];
+    })
+  );
+  return files.flat();
+};
+
+// Strip the shared indentation so regions inside functions read naturally
+const dedent = (lines) => {
+  const indent = Math.min(
+    ...lines
+      .filter((line) => line.trim())
+      .map((line) => line.match(/^\s*/)[0].length)
+  );
+  return lines.map((line) => line.slice(indent)).join("\n").trim();
+};
+
+const parseRegions = (file, source) => {
+  const regions = new Map();
+  const open = [];
+
+  source.split("\n").forEach((line, index) => {
+    const start = line.match(regionStart);
+    if (start) {
+      if (regions.has(start[1]) || open.some((r) => r.name === start[1])) {
+        throw new Error(`${file}:${index + 1} duplicate region "${start[1]}"`);
+      }
+      open.push({ name: start[1], lines: [] });
+      return;
+    }
+    if (regionEnd.test(line)) {
+      const region = open.pop();
+      if (!region) {
+        throw new Error(`${file}:${index + 1} #endregion without #region`);
+      }
+      regions.set(region.name, dedent(region.lines));
+      return;
+    }
+    // Nested regions are part of their parents too, minus the markers
+    for (const region of open) {
+      region.lines.push(line);
+    }
+  });
+
+  if (open.length > 0) {
+    throw new Error(`${file}: region "${open[0].name}" is never closed`);
+  }
+
+  return regions;
+};
+
+const main = async () => {
+  const files = (await Promise.all(sourceDirs.map(listSourceFiles))).flat();
+  const sources = new Map(
+    await Promise.all(
+      files.map(async (file) => [
+        file,
+        await readFile(path.join(root, file), "utf8"),
+      ])
+    )
+  );
+
+  const regionsByFile = new Map();
+  for (const [file, source] of sources) {
+    regionsByFile.set(file, parseRegions(file, source));
+  }
+
+  const snippets = new Map();
+  const missing = [];
+
+  for (const [file, source] of sources) {
+    for (const [, target, name] of source.matchAll(snippetReference)) {
+      const code = regionsByFile.get(target)?.get(name);
+      if (code === undefined) {
+        missing.push(`${file} references "${target}#${name}"`);
+      } else {
+        snippets.set(`${target}#${name}`, { fileName: target, code });
+      }
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing source regions:\n${missing.map((m) => `  - ${m}`).join("\n")}`
+    );
+  }
+
+  const entries = [...snippets]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(
+      ([id, snippet]) =>
+        `  ${JSON.stringify(id)}: {\n` +
+        `    fileName: ${JSON.stringify(snippet.fileName)},\n` +
+        `    code: ${JSON.stringify(snippet.code)},\n` +
+        `  },\n`
+    )
+    .join("");
+
+  await writeFile(
+    path.join(root, outputFile),
+    "// Generated by scripts/extract-snippets.mjs, do not edit by hand.\n\n" +
+      `export const snippets = {\n${entries}} as const;\n`
+  );
+
+  console.log(`Extracted ${snippets.size} source snippets to ${outputFile}`);
+};
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});